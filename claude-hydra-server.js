@@ -2,9 +2,10 @@
 
 import { fileURLToPath } from 'url';
 import { dirname, join, resolve, isAbsolute } from 'path';
-import { existsSync, accessSync, statSync, constants } from 'fs';
+import { existsSync, accessSync, statSync, readFileSync, constants } from 'fs';
 import { spawn, execSync } from 'child_process';
 import { findAvailablePortTriple, isPortAvailable } from './src/lib/server/port-finder.js';
+import { waitForServer, runPrompt } from './src/lib/server/batch-run.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -33,13 +34,114 @@ function parsePortArg() {
 	return null;
 }
 
+// Parse --idle-timeout parameter (minutes until idle sessions are hibernated)
+function parseIdleTimeoutArg() {
+	const args = process.argv.slice(2);
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+
+		if (arg === '--idle-timeout' && i + 1 < args.length) {
+			return parseInt(args[i + 1], 10);
+		}
+		if (arg.startsWith('--idle-timeout=')) {
+			return parseInt(arg.substring(15), 10);
+		}
+	}
+
+	return null;
+}
+
+// Parse --max-running parameter (limit of sessions processing a prompt at the same time)
+function parseMaxRunningArg() {
+	const args = process.argv.slice(2);
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+
+		if (arg === '--max-running' && i + 1 < args.length) {
+			return parseInt(args[i + 1], 10);
+		}
+		if (arg.startsWith('--max-running=')) {
+			return parseInt(arg.substring(14), 10);
+		}
+	}
+
+	return null;
+}
+
+// Parse --worktree-root parameter (directory new worktrees are created in)
+function parseWorktreeRootArg() {
+	const args = process.argv.slice(2);
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+
+		if (arg === '--worktree-root' && i + 1 < args.length) {
+			return args[i + 1];
+		}
+		if (arg.startsWith('--worktree-root=')) {
+			return arg.substring(16);
+		}
+	}
+
+	return null;
+}
+
+// Parse the arguments of the `run` subcommand:
+// claude-hydra run <repository> --branch <name> [--base <branch>] (--prompt <text> | --prompt-file <file>)
+//                  [--permission-mode <mode>] [--timeout <minutes>] [--port <port>]
+function parseRunArgs() {
+	const args = process.argv.slice(3);
+	const options = { repoPath: null, branchName: null, baseBranchName: undefined, prompt: null, permissionMode: undefined, timeoutMinutes: 0 };
+	const valueFlags = ['--branch', '--base', '--prompt', '--prompt-file', '--permission-mode', '--timeout', '-p', '--port'];
+
+	for (let i = 0; i < args.length; i++) {
+		let flag = args[i];
+		let value;
+		if (flag.startsWith('--') && flag.includes('=')) {
+			value = flag.substring(flag.indexOf('=') + 1);
+			flag = flag.substring(0, flag.indexOf('='));
+		} else if (valueFlags.includes(flag)) {
+			value = args[++i];
+		}
+
+		switch (flag) {
+			case '--branch':
+				options.branchName = value;
+				break;
+			case '--base':
+				options.baseBranchName = value;
+				break;
+			case '--prompt':
+				options.prompt = value;
+				break;
+			case '--prompt-file':
+				options.prompt = value === '-' ? readFileSync(0, 'utf8') : readFileSync(value, 'utf8');
+				break;
+			case '--permission-mode':
+				options.permissionMode = value;
+				break;
+			case '--timeout':
+				options.timeoutMinutes = parseFloat(value);
+				break;
+			default:
+				if (!flag.startsWith('-')) {
+					options.repoPath = flag;
+				}
+		}
+	}
+
+	return options;
+}
+
 // Parse positional arguments (repository paths)
 function parseRepositoryArgs() {
 	const args = process.argv.slice(2);
 	const repoPaths = [];
 
 	// Named flags that consume the next argument
-	const flagsWithValues = ['-p', '--port'];
+	const flagsWithValues = ['-p', '--port', '--idle-timeout', '--max-running', '--worktree-root'];
 
 	for (let i = 0; i < args.length; i++) {
 		const arg = args[i];
@@ -98,8 +200,14 @@ function validateRepository(repoPath) {
 const isDev = process.argv.includes('--dev') || !existsSync(join(__dirname, 'build'));
 let isHeadless = process.argv.includes('--headless') || process.argv.includes('-hl');
 
+// `claude-hydra run ...` runs a single prompt without a browser (see runCommand)
+const isRunCommand = process.argv[2] === 'run';
+if (isRunCommand) {
+	isHeadless = true;
+}
+
 // Parse and validate CLI repository arguments
-const cliRepoPaths = parseRepositoryArgs();
+const cliRepoPaths = isRunCommand ? [] : parseRepositoryArgs();
 const validatedRepos = [];
 
 if (cliRepoPaths.length > 0) {
@@ -128,7 +236,9 @@ async function openBrowser(url) {
 	await open(url);
 }
 
-async function startServer() {
+// Starts the server. In batch mode (used by `claude-hydra run`) the server's output goes to stderr
+// and a handle to stop it is returned instead of keeping the process alive until a signal arrives.
+async function startServer(batch = false) {
 	let httpPort, wsPort, mgmtPort;
 	let portSource = 'auto-detected';
 
@@ -176,6 +286,40 @@ async function startServer() {
 		console.log('[claude-hydra] Running in headless mode (browser will not open automatically)');
 	}
 
+	const idleTimeout = parseIdleTimeoutArg();
+	if (idleTimeout !== null) {
+		if (isNaN(idleTimeout) || idleTimeout < 0) {
+			console.error(`Error: Invalid idle timeout: ${idleTimeout}`);
+			console.error('The idle timeout must be a number of minutes (0 disables hibernation)');
+			process.exit(1);
+		}
+		console.log(`[claude-hydra] Hibernating sessions idle for ${idleTimeout} minute(s)`);
+		process.env.IDLE_TIMEOUT = String(idleTimeout);
+	}
+
+	const maxRunning = parseMaxRunningArg();
+	if (maxRunning !== null) {
+		if (isNaN(maxRunning) || maxRunning < 0) {
+			console.error(`Error: Invalid maximum of running sessions: ${maxRunning}`);
+			console.error('The maximum must be a number of sessions (0 means unlimited)');
+			process.exit(1);
+		}
+		console.log(`[claude-hydra] Running at most ${maxRunning} session(s) at the same time`);
+		process.env.MAX_RUNNING = String(maxRunning);
+	}
+
+	const worktreeRoot = parseWorktreeRootArg();
+	if (worktreeRoot !== null) {
+		if (!worktreeRoot.trim()) {
+			console.error('Error: The worktree root must not be empty');
+			process.exit(1);
+		}
+		// Without a placeholder every repository gets its own subdirectory (see SessionManager)
+		const hasPlaceholder = /\{(repo|hash)\}/.test(worktreeRoot);
+		console.log(`[claude-hydra] Creating worktrees in ${worktreeRoot}${hasPlaceholder ? '' : '/<repo-name>-<hash>'}`);
+		process.env.WORKTREE_ROOT = worktreeRoot;
+	}
+
 	// Set environment variables for the server
 	process.env.IS_HEADLESS = String(isHeadless);
 	process.env.HTTP_PORT = String(httpPort);
@@ -198,6 +342,10 @@ async function startServer() {
 
 		await server.listen();
 
+		if (batch) {
+			return { httpPort, wsPort, close: () => server.close() };
+		}
+
 		const url = `http://localhost:${httpPort}`;
 		console.log(`\n  ➜ Local: ${url}\n`);
 
@@ -245,7 +393,7 @@ async function startServer() {
 		}
 
 		const child = spawn('node', [buildIndexPath], {
-			stdio: 'inherit',
+			stdio: batch ? ['ignore', 2, 2] : 'inherit',
 			env: { ...process.env }
 		});
 
@@ -254,6 +402,12 @@ async function startServer() {
 			process.exit(1);
 		});
 
+		if (batch) {
+			// The server only exits on its own when the management client disconnects (not in headless
+			// mode), so stop it hard - the PTYs of its sessions end with it
+			return { httpPort, wsPort, close: () => child.kill('SIGKILL') };
+		}
+
 		child.on('exit', (code) => {
 			process.exit(code || 0);
 		});
@@ -268,7 +422,63 @@ async function startServer() {
 	}
 }
 
-startServer().catch((err) => {
-	console.error('Failed to start server:', err);
-	process.exit(1);
-});
+// `claude-hydra run`: create a worktree, submit a prompt, wait until Claude has finished
+// and print a JSON summary (commits, changed files, git status) to stdout
+async function runCommand() {
+	// stdout is reserved for the JSON summary - send all log output to stderr
+	console.log = console.error;
+	console.info = console.error;
+
+	const options = parseRunArgs();
+	const usage = 'Usage: claude-hydra run <repository> --branch <name> [--base <branch>] (--prompt <text> | --prompt-file <file>) [--permission-mode <mode>] [--timeout <minutes>]';
+	if (!options.repoPath || !options.branchName || !options.prompt) {
+		console.error(usage);
+		process.exit(2);
+	}
+	if (options.permissionMode && !['skip', 'default', 'plan', 'allowlist'].includes(options.permissionMode)) {
+		console.error(`Error: Invalid permission mode: ${options.permissionMode} (expected skip, default, plan or allowlist)`);
+		process.exit(2);
+	}
+	if (isNaN(options.timeoutMinutes) || options.timeoutMinutes < 0) {
+		console.error('Error: The timeout must be a number of minutes (0 waits forever)');
+		process.exit(2);
+	}
+	const validation = validateRepository(options.repoPath);
+	if (!validation.valid) {
+		console.error(`Error: ${validation.error}`);
+		process.exit(2);
+	}
+
+	const server = await startServer(true);
+	let summary;
+	try {
+		await waitForServer(server.httpPort);
+		summary = await runPrompt({
+			httpPort: server.httpPort,
+			wsPort: server.wsPort,
+			repoPath: validation.path,
+			branchName: options.branchName,
+			baseBranchName: options.baseBranchName,
+			prompt: options.prompt,
+			permissionMode: options.permissionMode,
+			timeoutMinutes: options.timeoutMinutes
+		});
+	} finally {
+		await server.close();
+	}
+
+	process.stdout.write(JSON.stringify(summary, null, 2) + '\n');
+	process.exit(summary.status === 'completed' ? 0 : 1);
+}
+
+if (isRunCommand) {
+	runCommand().catch((err) => {
+		console.error('claude-hydra run failed:', err);
+		process.exit(1);
+	});
+} else {
+	startServer().catch((err) => {
+		console.error('Failed to start server:', err);
+		process.exit(1);
+	});
+}
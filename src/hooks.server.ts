@@ -1,21 +1,43 @@
 import type { Handle } from '@sveltejs/kit';
 import { WebSocketServer } from 'ws';
-import { PtyManager } from '$lib/server/pty-manager';
+import { PtyManager, type AutoInitStatus } from '$lib/server/pty-manager';
 import { RepositoryRegistry } from '$lib/server/repository-registry';
-import { registerConnection, unregisterConnection, sendGitBranchStatus, broadcastGitStatusToAll } from '$lib/server/websocket-manager';
+import { registerConnection, unregisterConnection, sendGitBranchStatus, broadcastGitStatusToAll, sendBranchUiSnapshot, clearBranchUiState, clearPendingPrompt, takePendingWaituserCommand, getBranchState, refreshGitStatus } from '$lib/server/websocket-manager';
 import { setRepositoryRegistry } from '$lib/server/session-manager-instance';
-import { initializeFileServerSecret } from '$lib/server/secret-instance';
+import { setDefaultWorktreeRoot } from '$lib/server/session-manager';
+import { setPtyManager } from '$lib/server/pty-manager-instance';
+import { initializeFileServerSecret, getFileServerSecret } from '$lib/server/secret-instance';
+import { readAgentProfiles } from '$lib/server/agent-profiles';
+import { isPermissionMode } from '$lib/server/permission-mode';
+import { listRecordings, readRecording } from '$lib/server/session-recorder';
+import { listTranscripts, readTranscript } from '$lib/server/transcripts';
+import { setMaxRunningSessions } from '$lib/server/run-queue';
+import { dispatchWebhookEvent } from '$lib/server/webhooks';
+import { isMergeStrategy } from '$lib/utils/mergeStrategies';
 import { promises as fs } from 'fs';
-import { execSync } from 'child_process';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { tryGit } from '$lib/server/git-runner';
 
 // Read ports from environment variables set by claude-hydra-server.js
 const WS_PORT = parseInt(process.env.WS_PORT || '3001', 10);
 const MGMT_PORT = parseInt(process.env.MGMT_PORT || '3002', 10);
 const HTTP_PORT = parseInt(process.env.HTTP_PORT || '3000', 10);
 
+// Minutes until idle sessions are hibernated (0 = never), set by claude-hydra-server.js from --idle-timeout
+const IDLE_TIMEOUT = parseInt(process.env.IDLE_TIMEOUT || '0', 10) || 0;
+
+// Maximum number of sessions running at the same time (0 = unlimited), set by claude-hydra-server.js from --max-running
+const MAX_RUNNING = parseInt(process.env.MAX_RUNNING || '0', 10) || 0;
+
+// Directory new worktrees are created in (null = ~/.claude-hydra/<repo-name-hash>), set by claude-hydra-server.js from --worktree-root
+const WORKTREE_ROOT = process.env.WORKTREE_ROOT || null;
+
 // Read CLI repositories from environment variable
 const CLI_REPOSITORIES = process.env.CLI_REPOSITORIES ? JSON.parse(process.env.CLI_REPOSITORIES) : [];
 
+const execAsync = promisify(exec);
+
 // Use globalThis to persist WebSocket servers across HMR reloads
 declare global {
 	var __wss: WebSocketServer | null;
@@ -42,6 +64,10 @@ const isHeadless = process.env.IS_HEADLESS === 'true';
 repositoryRegistry = new RepositoryRegistry();
 setRepositoryRegistry(repositoryRegistry); // Register the singleton instance
 ptyManager = new PtyManager(repositoryRegistry);
+setPtyManager(ptyManager); // Register the singleton instance (used by the prompt endpoint)
+ptyManager.setIdleTimeout(IDLE_TIMEOUT);
+setMaxRunningSessions(MAX_RUNNING);
+setDefaultWorktreeRoot(WORKTREE_ROOT);
 
 // Initialize file server secret (generates once on startup)
 initializeFileServerSecret();
@@ -65,6 +91,59 @@ function initWebSocketServer() {
 		let branchName: string | null = null;
 		let repoHash: string | null = null;
 
+		// PTY callbacks of this connection (handed to the PTY manager on create/restart/attach)
+		const onData = (sid: string, output: string) => {
+			// Send terminal output to client
+			if (ws.readyState === ws.OPEN) {
+				ws.send(JSON.stringify({ type: 'data', data: output }));
+			}
+		};
+		const onExit = (sid: string) => {
+			// Handle terminal exit
+			if (ws.readyState === ws.OPEN) {
+				ws.send(JSON.stringify({ type: 'exit' }));
+			}
+		};
+		const onAutoInitStatus = (sid: string, status: AutoInitStatus, stderr?: string) => {
+			// Handle autoinit status updates
+			if (ws.readyState === ws.OPEN) {
+				ws.send(JSON.stringify({
+					type: 'autoInitStatus',
+					status,
+					stderr
+				}));
+			}
+		};
+
+		const onAutoInitOutput = (sid: string, output: string) => {
+			// Stream autoinit script output to the log panel
+			if (ws.readyState === ws.OPEN) {
+				ws.send(JSON.stringify({ type: 'autoInitOutput', data: output }));
+			}
+		};
+
+		// Auxiliary shell callbacks of this connection
+		const onShellData = (shellId: string, output: string) => {
+			if (ws.readyState === ws.OPEN) {
+				ws.send(JSON.stringify({ type: 'shellData', shellId, data: output }));
+			}
+		};
+		const onShellExit = (shellId: string) => {
+			if (ws.readyState === ws.OPEN) {
+				ws.send(JSON.stringify({ type: 'shellExit', shellId }));
+			}
+		};
+
+		// Restores the auxiliary shells of a session on a newly attached client
+		const sendShellList = (sid: string) => {
+			const shells = ptyManager.getShells(sid).map(shell => ({
+				shellId: shell.id,
+				title: shell.title,
+				scrollback: shell.scrollback.getContents()
+			}));
+			ws.send(JSON.stringify({ type: 'shellList', shells }));
+		};
+
 		ws.on('message', async (message) => {
 			try {
 				const data = JSON.parse(message.toString());
@@ -90,38 +169,36 @@ function initWebSocketServer() {
 						// Determine base URL for hooks to call back using actual HTTP port
 						const baseUrl = `http://localhost:${HTTP_PORT}`;
 
-						const sessionInfo = await ptyManager.createSession(
-							data.repoPath,
-							data.branchName,
-							(sid, output) => {
-								// Send terminal output to client
-								if (ws.readyState === ws.OPEN) {
-									ws.send(JSON.stringify({ type: 'data', data: output }));
-								}
-							},
-							(sid) => {
-								// Handle terminal exit
-								if (ws.readyState === ws.OPEN) {
-									ws.send(JSON.stringify({ type: 'exit' }));
+						// When adopting a worktree whose PTY is still running (e.g. after a browser reload),
+						// reattach to the live session instead of spawning a second Claude process
+						const reattached = adoptExisting
+							? ptyManager.reattachSession(data.repoPath, data.branchName, onData, onExit, onAutoInitStatus)
+							: null;
+
+						const sessionInfo = reattached
+							? reattached.sessionInfo
+							: await ptyManager.createSession(
+								data.repoPath,
+								data.branchName,
+								onData,
+								onExit,
+								onAutoInitStatus,
+								baseUrl,
+								adoptExisting,
+								baseBranchName,
+								{
+									agentProfile: data.agentProfile,
+									permissionMode: isPermissionMode(data.permissionMode) ? data.permissionMode : undefined,
+									record: typeof data.record === 'boolean' ? data.record : undefined
 								}
-							},
-							(sid, status, stderr) => {
-								// Handle autoinit status updates
-								if (ws.readyState === ws.OPEN) {
-									ws.send(JSON.stringify({
-										type: 'autoInitStatus',
-										status,
-										stderr
-									}));
-								}
-							},
-							baseUrl,
-							adoptExisting,
-							baseBranchName
-						);
+							);
 
 						// Extract sessionId from sessionInfo
 						sessionId = sessionInfo.sessionId;
+						// The local branch (differs from the requested name when a remote branch was checked out)
+						branchName = sessionInfo.branchName;
+						ptyManager.setShellCallbacks(sessionId, onShellData, onShellExit);
+						ptyManager.setAutoInitOutputCallback(sessionId, onAutoInitOutput);
 
 						// Get repository hash for unique tab identification
 						const sessionManager = repositoryRegistry.getRepositoryBySessionId(sessionId);
@@ -131,6 +208,11 @@ function initWebSocketServer() {
 						}
 						repoHash = sessionManager.getRepoHash();
 
+						// A freshly spawned Claude has no pending prompts from a previous session
+						if (!reattached) {
+							clearBranchUiState(repoHash, branchName!);
+						}
+
 						// Register this connection with the repo hash and branch name
 						// At this point branchName is guaranteed to be non-null
 						registerConnection(repoHash, branchName!, ws);
@@ -139,8 +221,8 @@ function initWebSocketServer() {
 						// (connection must be registered first for the message to be sent)
 						if (adoptExisting) {
 							try {
-								const gitStatus = sessionManager.getGitStatus(sessionId);
-								const commitLog = sessionManager.getCommitLog(sessionId);
+								const gitStatus = await sessionManager.getGitStatus(sessionId);
+								const commitLog = await sessionManager.getCommitLog(sessionId);
 								sendGitBranchStatus(repoHash, branchName!, gitStatus, commitLog);
 							} catch (error) {
 								console.error(`Failed to send initial git status for ${branchName}:`, error);
@@ -151,9 +233,30 @@ function initWebSocketServer() {
 					ws.send(JSON.stringify({
 						type: 'created',
 						sessionId,
+						repoHash,
 						branchName: sessionInfo.branchName,
-						baseBranchName: sessionInfo.baseBranchName
+						baseBranchName: sessionInfo.baseBranchName,
+						permissionMode: sessionInfo.permissionMode,
+						recording: sessionInfo.recording,
+						token: getFileServerSecret() // For the prompt endpoint (used by claude-hydra run)
 					}));
+
+						// Replay buffered output so the new client sees what the PTY printed before it connected
+						if (reattached) {
+							ws.send(JSON.stringify({ type: 'replay', data: reattached.scrollback }));
+							sendShellList(sessionId);
+							sendBranchUiSnapshot(repoHash, branchName!);
+							if (reattached.autoInitLog) {
+								ws.send(JSON.stringify({ type: 'autoInitLog', data: reattached.autoInitLog }));
+							}
+							ws.send(JSON.stringify({ type: 'resourceHistory', samples: reattached.resourceHistory }));
+							if (reattached.tokenUsage) {
+								ws.send(JSON.stringify({ type: 'tokenUsage', usage: reattached.tokenUsage }));
+							}
+							if (reattached.autoInit && reattached.autoInit.status !== 'completed') {
+								onAutoInitStatus(sessionId, reattached.autoInit.status, reattached.autoInit.stderr);
+							}
+						}
 						} catch (error: any) {
 							const errorMessage = error.message || String(error);
 							console.error('Failed to create session:', errorMessage);
@@ -161,6 +264,91 @@ function initWebSocketServer() {
 						}
 						break;
 
+					case 'attach':
+						// Take over a live terminal session (e.g. after the previous socket was lost)
+						try {
+							if (!data.sessionId) {
+								ws.send(JSON.stringify({ type: 'error', error: 'Session ID is required' }));
+								break;
+							}
+
+							const attached = ptyManager.attachSession(data.sessionId, onData, onExit, onAutoInitStatus);
+							const sessionManager = repositoryRegistry.getRepositoryBySessionId(data.sessionId);
+							if (!attached || !sessionManager) {
+								// Session is gone (e.g. server restarted) - client falls back to 'create'
+								ws.send(JSON.stringify({ type: 'attachFailed', sessionId: data.sessionId }));
+								break;
+							}
+
+							sessionId = attached.sessionInfo.sessionId;
+							branchName = attached.sessionInfo.branchName;
+							ptyManager.setShellCallbacks(sessionId, onShellData, onShellExit);
+							ptyManager.setAutoInitOutputCallback(sessionId, onAutoInitOutput);
+							repoHash = sessionManager.getRepoHash();
+							registerConnection(repoHash, branchName, ws);
+
+							ws.send(JSON.stringify({
+								type: 'attached',
+								sessionId,
+								branchName,
+								baseBranchName: attached.sessionInfo.baseBranchName,
+								permissionMode: attached.sessionInfo.permissionMode,
+								recording: attached.sessionInfo.recording
+							}));
+							ws.send(JSON.stringify({ type: 'replay', data: attached.scrollback }));
+							sendShellList(sessionId);
+
+							// Bring the client up to date: running state, pending prompts, git status and autoinit result
+							sendBranchUiSnapshot(repoHash, branchName);
+							try {
+								const gitStatus = await sessionManager.getGitStatus(sessionId);
+								const commitLog = await sessionManager.getCommitLog(sessionId);
+								sendGitBranchStatus(repoHash, branchName, gitStatus, commitLog);
+							} catch (error) {
+								console.error(`Failed to send git status on attach for ${branchName}:`, error);
+							}
+							if (attached.autoInitLog) {
+								ws.send(JSON.stringify({ type: 'autoInitLog', data: attached.autoInitLog }));
+							}
+							ws.send(JSON.stringify({ type: 'resourceHistory', samples: attached.resourceHistory }));
+							if (attached.tokenUsage) {
+								ws.send(JSON.stringify({ type: 'tokenUsage', usage: attached.tokenUsage }));
+							}
+							if (attached.autoInit && attached.autoInit.status !== 'completed') {
+								onAutoInitStatus(sessionId, attached.autoInit.status, attached.autoInit.stderr);
+							}
+						} catch (error: any) {
+							const errorMessage = error.message || String(error);
+							console.error('Failed to attach session:', errorMessage);
+							ws.send(JSON.stringify({ type: 'error', error: errorMessage }));
+						}
+						break;
+
+					case 'detach':
+						// Release the session without destroying it; the PTY keeps running and buffering output
+						if (sessionId) {
+							ptyManager.detachSession(sessionId);
+							if (repoHash && branchName) {
+								unregisterConnection(repoHash, branchName, ws);
+							}
+							sessionId = null;
+						}
+						break;
+
+					case 'focus':
+						// The tab was activated/deactivated or the browser window was hidden/shown
+						if (sessionId) {
+							ptyManager.setFocused(sessionId, !!data.focused);
+						}
+						break;
+
+					case 'dismissOpenUrl':
+						// User closed the openurl iframe - don't show it again on attach
+						if (repoHash && branchName) {
+							clearPendingPrompt(repoHash, branchName, 'openurl');
+						}
+						break;
+
 					case 'data':
 						// Send input to terminal
 						if (sessionId) {
@@ -175,6 +363,56 @@ function initWebSocketServer() {
 						}
 						break;
 
+					case 'cancelAutoInit':
+						// Kill the running autoinit script (status 'cancelled' is sent when it exits)
+						if (sessionId) {
+							ptyManager.cancelAutoInit(sessionId);
+						}
+						break;
+
+					case 'rerunAutoInit':
+						// Run the worktree's autoinit script again
+						if (sessionId) {
+							try {
+								ptyManager.rerunAutoInit(sessionId);
+							} catch (error: any) {
+								const errorMessage = error.message || String(error);
+								console.error('Failed to re-run autoinit:', errorMessage);
+								ws.send(JSON.stringify({ type: 'autoInitStatus', status: 'failed', stderr: errorMessage }));
+							}
+						}
+						break;
+
+					case 'createShell':
+						// Start an auxiliary shell in the session's worktree
+						if (sessionId) {
+							const shell = ptyManager.createShell(sessionId, data.cols, data.rows);
+							if (shell) {
+								ws.send(JSON.stringify({ type: 'shellCreated', shellId: shell.id, title: shell.title }));
+							} else {
+								ws.send(JSON.stringify({ type: 'shellError', error: 'Session not found' }));
+							}
+						}
+						break;
+
+					case 'shellData':
+						if (sessionId && data.shellId) {
+							ptyManager.writeShell(sessionId, data.shellId, data.data);
+						}
+						break;
+
+					case 'shellResize':
+						if (sessionId && data.shellId) {
+							ptyManager.resizeShell(sessionId, data.shellId, data.cols, data.rows);
+						}
+						break;
+
+					case 'closeShell':
+						if (sessionId && data.shellId) {
+							ptyManager.closeShell(sessionId, data.shellId);
+						}
+						break;
+
 					case 'getGitStatus':
 						// Get git status for the session
 						// Accept sessionId from message payload or use connection's sessionId
@@ -183,8 +421,8 @@ function initWebSocketServer() {
 							try {
 								const sessionManager = repositoryRegistry.getRepositoryBySessionId(statusSessionId);
 								if (sessionManager) {
-									const gitStatus = sessionManager.getGitStatus(statusSessionId);
-									const commitLog = sessionManager.getCommitLog(statusSessionId);
+									const gitStatus = await sessionManager.getGitStatus(statusSessionId);
+									const commitLog = await sessionManager.getCommitLog(statusSessionId);
 									const targetBranch = ptyManager.getBranchName(statusSessionId);
 									const targetRepoHash = sessionManager.getRepoHash();
 									if (targetBranch) {
@@ -206,14 +444,14 @@ function initWebSocketServer() {
 						if (discardSessionId) {
 							const sessionManager = repositoryRegistry.getRepositoryBySessionId(discardSessionId);
 							if (sessionManager) {
-								const discardResult = sessionManager.discardChanges(discardSessionId);
+								const discardResult = await sessionManager.discardChanges(discardSessionId);
 								ws.send(JSON.stringify({ type: 'discardResult', result: discardResult }));
 
 								// Send updated git status with commit log after discard
 								if (discardResult.success) {
 									try {
-										const gitStatus = sessionManager.getGitStatus(discardSessionId);
-										const commitLog = sessionManager.getCommitLog(discardSessionId);
+										const gitStatus = await sessionManager.getGitStatus(discardSessionId);
+										const commitLog = await sessionManager.getCommitLog(discardSessionId);
 										const targetBranch = ptyManager.getBranchName(discardSessionId);
 										const targetRepoHash = sessionManager.getRepoHash();
 										if (targetBranch) {
@@ -233,14 +471,14 @@ function initWebSocketServer() {
 						if (resetSessionId) {
 							const sessionManager = repositoryRegistry.getRepositoryBySessionId(resetSessionId);
 							if (sessionManager) {
-								const resetResult = sessionManager.resetToBase(resetSessionId);
+								const resetResult = await sessionManager.resetToBase(resetSessionId);
 								ws.send(JSON.stringify({ type: 'resetResult', result: resetResult }));
 
 								// Send updated git status with commit log after reset
 								if (resetResult.success) {
 									try {
-										const gitStatus = sessionManager.getGitStatus(resetSessionId);
-										const commitLog = sessionManager.getCommitLog(resetSessionId);
+										const gitStatus = await sessionManager.getGitStatus(resetSessionId);
+										const commitLog = await sessionManager.getCommitLog(resetSessionId);
 										const targetBranch = ptyManager.getBranchName(resetSessionId);
 										const targetRepoHash = sessionManager.getRepoHash();
 										if (targetBranch) {
@@ -254,6 +492,55 @@ function initWebSocketServer() {
 						}
 						break;
 
+					case 'rebase':
+					case 'merge':
+						// Rebase onto / merge into the base branch without Claude (conflicts abort the operation)
+						const gitOperationSessionId = data.sessionId || sessionId;
+						const gitOperationResultType = data.type === 'rebase' ? 'rebaseResult' : 'mergeResult';
+						if (gitOperationSessionId) {
+							const sessionManager = repositoryRegistry.getRepositoryBySessionId(gitOperationSessionId);
+							const targetBranch = ptyManager.getBranchName(gitOperationSessionId);
+							if (!sessionManager || !targetBranch) {
+								ws.send(JSON.stringify({ type: gitOperationResultType, result: { success: false, error: 'Session not found' } }));
+								break;
+							}
+							const targetRepoHash = sessionManager.getRepoHash();
+
+							// Don't change the files while Claude works on them
+							if (getBranchState(targetRepoHash, targetBranch) !== 'ready') {
+								ws.send(JSON.stringify({ type: gitOperationResultType, result: { success: false, error: 'Claude is busy in this worktree - wait until it is ready' } }));
+								break;
+							}
+
+							// The merge strategy chosen in the merge dialog overrides the repository's default
+							const mergeStrategy = isMergeStrategy(data.strategy) ? data.strategy : await sessionManager.getMergeStrategy();
+							const commitMessage = typeof data.commitMessage === 'string' ? data.commitMessage : undefined;
+							const gitOperationResult = data.type === 'rebase'
+								? await sessionManager.rebaseOntoBase(gitOperationSessionId)
+								: await sessionManager.mergeIntoBase(gitOperationSessionId, mergeStrategy, commitMessage);
+							ws.send(JSON.stringify({ type: gitOperationResultType, result: gitOperationResult }));
+
+							if (gitOperationResult.success) {
+								if (data.type === 'merge') {
+									const baseBranchName = sessionManager.getAllSessions().get(gitOperationSessionId)?.baseBranchName;
+									dispatchWebhookEvent(targetRepoHash, targetBranch, 'session.merged', { baseBranch: baseBranchName, strategy: mergeStrategy });
+								}
+								// Update this tab and - after a merge - all tabs using the same base branch
+								await refreshGitStatus(targetRepoHash, targetBranch);
+							}
+						}
+						break;
+
+					case 'getMergeStrategy':
+						// Default merge strategy of the session's repository (preselected in the merge dialog)
+						const mergeStrategySessionId = data.sessionId || sessionId;
+						const mergeStrategyManager = mergeStrategySessionId ? repositoryRegistry.getRepositoryBySessionId(mergeStrategySessionId) : null;
+						ws.send(JSON.stringify({
+							type: 'mergeStrategy',
+							strategy: mergeStrategyManager ? await mergeStrategyManager.getMergeStrategy() : null
+						}));
+						break;
+
 					case 'restart':
 						// Restart Claude process for this session
 						const restartSessionId = data.sessionId || sessionId;
@@ -268,12 +555,7 @@ function initWebSocketServer() {
 									// Capture both for closure
 									const capturedBranchName = branchName;
 									// Get repoPath by looking up which repo this session belongs to
-									// We can use git to find the repo root from the worktree
-									const { execSync } = require('child_process');
-									const capturedRepoPath = execSync('git rev-parse --show-toplevel', {
-										cwd: sessionInfo.worktreePath,
-										encoding: 'utf8'
-									}).trim();
+									const capturedRepoPath = sessionManager.getRepoPath();
 
 									// Destroy current PTY process (but keep worktree)
 									ptyManager.destroy(restartSessionId, true);
@@ -286,31 +568,20 @@ function initWebSocketServer() {
 											const newSessionInfo = await ptyManager.createSession(
 												capturedRepoPath,
 												capturedBranchName,
-												(sid, output) => {
-													if (ws.readyState === ws.OPEN) {
-														ws.send(JSON.stringify({ type: 'data', data: output }));
-													}
-												},
-												(sid) => {
-													if (ws.readyState === ws.OPEN) {
-														ws.send(JSON.stringify({ type: 'exit' }));
-													}
-												},
-												(sid, status, stderr) => {
-													if (ws.readyState === ws.OPEN) {
-														ws.send(JSON.stringify({
-															type: 'autoInitStatus',
-															status,
-															stderr
-														}));
-													}
-												},
+												onData,
+												onExit,
+												onAutoInitStatus,
 												baseUrl,
 												true  // adoptExisting
 											);
 
 											// Update sessionId to new one
 											sessionId = newSessionInfo.sessionId;
+											ptyManager.setShellCallbacks(sessionId, onShellData, onShellExit);
+											ptyManager.setAutoInitOutputCallback(sessionId, onAutoInitOutput);
+											if (repoHash) {
+												clearBranchUiState(repoHash, capturedBranchName);
+											}
 											ws.send(JSON.stringify({ type: 'restarted', sessionId: newSessionInfo.sessionId }));
 										} catch (error: any) {
 											const errorMessage = error.message || String(error);
@@ -331,7 +602,7 @@ function initWebSocketServer() {
 							if (sessionManager) {
 								try {
 									const commitId = data.commitId || null; // null means working tree
-									const fileList = sessionManager.getFileList(fileListSessionId, commitId);
+									const fileList = await sessionManager.getFileList(fileListSessionId, commitId);
 									ws.send(JSON.stringify({
 										type: 'fileList',
 										commitId,
@@ -359,7 +630,7 @@ function initWebSocketServer() {
 									// Refresh file list and git status after deletion
 									if (result.success) {
 										try {
-											const fileList = sessionManager.getFileList(deleteSessionId, null);
+											const fileList = await sessionManager.getFileList(deleteSessionId, null);
 											ws.send(JSON.stringify({
 												type: 'fileList',
 												commitId: null,
@@ -367,8 +638,8 @@ function initWebSocketServer() {
 											}));
 
 											// Update git status
-											const gitStatus = sessionManager.getGitStatus(deleteSessionId);
-											const commitLog = sessionManager.getCommitLog(deleteSessionId);
+											const gitStatus = await sessionManager.getGitStatus(deleteSessionId);
+											const commitLog = await sessionManager.getCommitLog(deleteSessionId);
 											const targetBranch = ptyManager.getBranchName(deleteSessionId);
 											const targetRepoHash = sessionManager.getRepoHash();
 											if (targetBranch) {
@@ -400,7 +671,7 @@ function initWebSocketServer() {
 									// Refresh file list and git status after creation
 									if (result.success) {
 										try {
-											const fileList = sessionManager.getFileList(createSessionId, null);
+											const fileList = await sessionManager.getFileList(createSessionId, null);
 											ws.send(JSON.stringify({
 												type: 'fileList',
 												commitId: null,
@@ -408,8 +679,8 @@ function initWebSocketServer() {
 											}));
 
 											// Update git status
-											const gitStatus = sessionManager.getGitStatus(createSessionId);
-											const commitLog = sessionManager.getCommitLog(createSessionId);
+											const gitStatus = await sessionManager.getGitStatus(createSessionId);
+											const commitLog = await sessionManager.getCommitLog(createSessionId);
 											const targetBranch = ptyManager.getBranchName(createSessionId);
 											const targetRepoHash = sessionManager.getRepoHash();
 											if (targetBranch) {
@@ -435,7 +706,7 @@ function initWebSocketServer() {
 							const sessionManager = repositoryRegistry.getRepositoryBySessionId(diffSessionId);
 							if (sessionManager) {
 								try {
-									const diff = sessionManager.getFileDiff(diffSessionId, data.filePath, data.commitId || null);
+									const diff = await sessionManager.getFileDiff(diffSessionId, data.filePath, data.commitId || null);
 									ws.send(JSON.stringify({
 										type: 'fileDiff',
 										original: diff.original,
@@ -462,8 +733,8 @@ function initWebSocketServer() {
 
 									// Refresh git status after save
 									try {
-										const gitStatus = sessionManager.getGitStatus(saveSessionId);
-										const commitLog = sessionManager.getCommitLog(saveSessionId);
+										const gitStatus = await sessionManager.getGitStatus(saveSessionId);
+										const commitLog = await sessionManager.getCommitLog(saveSessionId);
 										const targetBranch = ptyManager.getBranchName(saveSessionId);
 										const targetRepoHash = sessionManager.getRepoHash();
 										if (targetBranch) {
@@ -488,13 +759,13 @@ function initWebSocketServer() {
 							const sessionManager = repositoryRegistry.getRepositoryBySessionId(discardFileSessionId);
 							if (sessionManager) {
 								try {
-									sessionManager.discardFile(discardFileSessionId, data.filePath);
+									await sessionManager.discardFile(discardFileSessionId, data.filePath);
 									ws.send(JSON.stringify({ type: 'fileDiscarded', success: true }));
 
 									// Refresh git status and file diff after discard
 									try {
-										const gitStatus = sessionManager.getGitStatus(discardFileSessionId);
-										const commitLog = sessionManager.getCommitLog(discardFileSessionId);
+										const gitStatus = await sessionManager.getGitStatus(discardFileSessionId);
+										const commitLog = await sessionManager.getCommitLog(discardFileSessionId);
 										const targetBranch = ptyManager.getBranchName(discardFileSessionId);
 										const targetRepoHash = sessionManager.getRepoHash();
 										if (targetBranch) {
@@ -502,7 +773,7 @@ function initWebSocketServer() {
 										}
 
 										// Send updated file diff
-										const diff = sessionManager.getFileDiff(discardFileSessionId, data.filePath, null);
+										const diff = await sessionManager.getFileDiff(discardFileSessionId, data.filePath, null);
 										ws.send(JSON.stringify({
 											type: 'fileDiff',
 											original: diff.original,
@@ -567,13 +838,7 @@ function initWebSocketServer() {
 							}
 
 							// Check if it's a git repository
-							try {
-								execSync('git rev-parse --git-dir', {
-									cwd: repoPath,
-									stdio: 'pipe',
-									encoding: 'utf8'
-								});
-							} catch (error) {
+							if (!await tryGit(['rev-parse', '--git-dir'], { cwd: repoPath })) {
 								ws.send(JSON.stringify({
 									type: 'repositoryValidated',
 									valid: false,
@@ -607,10 +872,10 @@ function initWebSocketServer() {
 							}
 
 							// Get or create SessionManager for this repository
-							const sessionManager = repositoryRegistry.getOrCreateRepository(data.repoPath);
+							const sessionManager = await repositoryRegistry.getOrCreateRepository(data.repoPath);
 
 							// Discover existing worktrees
-							const worktrees = sessionManager.discoverExistingWorktrees();
+							const worktrees = await sessionManager.discoverExistingWorktrees();
 
 							// Send results back to client
 							ws.send(JSON.stringify({
@@ -633,16 +898,18 @@ function initWebSocketServer() {
 							}
 
 							// Get or create SessionManager for this repository
-							const sessionManager = repositoryRegistry.getOrCreateRepository(data.repoPath);
+							const sessionManager = await repositoryRegistry.getOrCreateRepository(data.repoPath);
 
 							// List branches
-							const branches = sessionManager.listBranches();
+							const branches = await sessionManager.listBranches();
+							const remotes = await sessionManager.listRemotes();
 
-							// Send results back to client
+							// Send results back to client (remotes tell remote branches apart from local names with slashes)
 							ws.send(JSON.stringify({
 								type: 'branchesListed',
 								repoPath: data.repoPath,
-								branches
+								branches,
+								remotes
 							}));
 						} catch (error: any) {
 							const errorMessage = error.message || String(error);
@@ -664,10 +931,10 @@ function initWebSocketServer() {
 							}
 
 							// Get or create SessionManager for this repository
-							const sessionManager = repositoryRegistry.getOrCreateRepository(data.repoPath);
+							const sessionManager = await repositoryRegistry.getOrCreateRepository(data.repoPath);
 
 							// Get base branch for the specified branch
-							const baseBranch = sessionManager.getBaseBranchForBranch(data.branchName);
+							const baseBranch = await sessionManager.getBaseBranchForBranch(data.branchName);
 
 							// Send result back to client
 							ws.send(JSON.stringify({
@@ -682,10 +949,84 @@ function initWebSocketServer() {
 						}
 						break;
 
+					case 'listRecordings':
+						// List the asciicast recordings of this session's branch (including previous runs)
+						if (sessionId && branchName) {
+							const sessionManager = repositoryRegistry.getRepositoryBySessionId(sessionId);
+							if (sessionManager) {
+								const recordings = listRecordings(sessionManager.getRecordingsDir(branchName));
+								ws.send(JSON.stringify({ type: 'recordingsListed', recordings }));
+							}
+						}
+						break;
+
+					case 'getRecording':
+						// Load a recording for the replay viewer
+						if (sessionId && branchName) {
+							const sessionManager = repositoryRegistry.getRepositoryBySessionId(sessionId);
+							const content = sessionManager && typeof data.recordingId === 'string'
+								? readRecording(sessionManager.getRecordingsDir(branchName), data.recordingId)
+								: null;
+							if (content === null) {
+								ws.send(JSON.stringify({ type: 'recordingError', error: `Recording ${data.recordingId} not found` }));
+							} else {
+								ws.send(JSON.stringify({ type: 'recording', recordingId: data.recordingId, content }));
+							}
+						}
+						break;
+
+					case 'listTranscripts':
+						// List Claude's conversation transcripts of this session's worktree
+						if (sessionId) {
+							const sessionInfo = repositoryRegistry.getRepositoryBySessionId(sessionId)?.getAllSessions().get(sessionId);
+							if (sessionInfo) {
+								ws.send(JSON.stringify({ type: 'transcriptsListed', transcripts: listTranscripts(sessionInfo.worktreePath) }));
+							}
+						}
+						break;
+
+					case 'getTranscript':
+						// Load a transcript for the transcript panel
+						if (sessionId) {
+							const sessionInfo = repositoryRegistry.getRepositoryBySessionId(sessionId)?.getAllSessions().get(sessionId);
+							const messages = sessionInfo && typeof data.transcriptId === 'string'
+								? await readTranscript(sessionInfo.worktreePath, data.transcriptId)
+								: null;
+							if (messages === null) {
+								ws.send(JSON.stringify({ type: 'transcriptError', error: `Transcript ${data.transcriptId} not found` }));
+							} else {
+								ws.send(JSON.stringify({ type: 'transcript', transcriptId: data.transcriptId, messages }));
+							}
+						}
+						break;
+
+					case 'listAgentProfiles':
+						try {
+							if (!data.repoPath) {
+								ws.send(JSON.stringify({ type: 'error', error: 'Repository path is required' }));
+								break;
+							}
+
+							// Get or create SessionManager for this repository
+							const sessionManager = await repositoryRegistry.getOrCreateRepository(data.repoPath);
+							const { defaultProfile, profiles } = readAgentProfiles(sessionManager.getRepoPath());
+
+							ws.send(JSON.stringify({
+								type: 'agentProfilesListed',
+								defaultProfile,
+								profiles: profiles.map(p => ({ name: p.name, command: p.command, args: p.args }))
+							}));
+						} catch (error: any) {
+							const errorMessage = error.message || String(error);
+							console.error('Failed to list agent profiles:', errorMessage);
+							ws.send(JSON.stringify({ type: 'error', error: errorMessage }));
+						}
+						break;
+
 					case 'executeWaituser':
 						// Execute waituser command
 						const waituserSessionId = data.sessionId || sessionId;
-						if (waituserSessionId && data.commandline) {
+						if (waituserSessionId) {
 							try {
 								const sessionManager = repositoryRegistry.getRepositoryBySessionId(waituserSessionId);
 								if (sessionManager) {
@@ -693,12 +1034,20 @@ function initWebSocketServer() {
 									const allSessions = sessionManager.getAllSessions();
 									const sessionInfo = allSessions.get(waituserSessionId);
 									if (sessionInfo) {
+										// Only the command line Claude requested through the hook is executed, never one sent by
+										// the client. It is run by the shell on purpose (it's a command line like "npm test").
+										// Taking it also marks the prompt as handled - it isn't shown again on attach.
+										const commandline = takePendingWaituserCommand(sessionManager.getRepoHash(), sessionInfo.branchName);
+										if (!commandline) {
+											ws.send(JSON.stringify({ type: 'waituserError', output: 'No command is waiting to be executed' }));
+											break;
+										}
+
 										// Execute command in worktree
 										try {
-											execSync(data.commandline, {
+											await execAsync(commandline, {
 												cwd: sessionInfo.worktreePath,
-												encoding: 'utf8',
-												stdio: 'pipe'
+												encoding: 'utf8'
 											});
 											// Success - no need to send anything back
 										} catch (error: any) {
@@ -728,10 +1077,10 @@ function initWebSocketServer() {
 							}
 
 							// Get SessionManager for this repository
-							const sessionManager = repositoryRegistry.getOrCreateRepository(data.repoPath);
+							const sessionManager = await repositoryRegistry.getOrCreateRepository(data.repoPath);
 
 							// Execute git fetch
-							const fetchResult = sessionManager.gitFetch();
+							const fetchResult = await sessionManager.gitFetch();
 							ws.send(JSON.stringify({ type: 'gitFetchResult', result: fetchResult }));
 
 							// After successful fetch, broadcast updated git status to all sessions in this repository
@@ -744,8 +1093,8 @@ function initWebSocketServer() {
 									const repoHash = sessionManager.getRepoHash();
 									for (const [sid, session] of allSessions) {
 										try {
-											const gitStatus = sessionManager.getGitStatus(sid);
-											const commitLog = sessionManager.getCommitLog(sid);
+											const gitStatus = await sessionManager.getGitStatus(sid);
+											const commitLog = await sessionManager.getCommitLog(sid);
 											sendGitBranchStatus(repoHash, session.branchName, gitStatus, commitLog);
 										} catch (error) {
 											console.error(`Failed to broadcast git status for session ${sid}:`, error);
@@ -777,7 +1126,13 @@ function initWebSocketServer() {
 							// Check if we should keep the branch (default: false)
 							const keepBranch = data.keepBranch || false;
 							console.log(`[WebSocket] Destroying session ${destroySessionId} (preserveWorktree=${preserveWorktree}, keepBranch=${keepBranch})`);
+							// The tab is closed: forget its UI state (state, pending prompts) along with the session
+							const destroyedRepository = repositoryRegistry.getRepositoryBySessionId(destroySessionId);
+							const destroyedBranchName = destroyedRepository?.getAllSessions().get(destroySessionId)?.branchName;
 							ptyManager.destroy(destroySessionId, preserveWorktree, keepBranch);
+							if (destroyedRepository && destroyedBranchName) {
+								clearBranchUiState(destroyedRepository.getRepoHash(), destroyedBranchName);
+							}
 							// Only null out the connection's sessionId if we destroyed this connection's session
 							if (sessionId === destroySessionId) {
 								sessionId = null;
@@ -796,7 +1151,7 @@ function initWebSocketServer() {
 			// The close handler ONLY cleans up the WebSocket connection registration.
 			// Do NOT call ptyManager.destroy() here to avoid conflicting with the destroy message handler.
 			if (branchName && repoHash) {
-				unregisterConnection(repoHash, branchName);
+				unregisterConnection(repoHash, branchName, ws);
 				console.log(`[WebSocket] Unregistered connection for branch: ${branchName}`);
 			}
 		});
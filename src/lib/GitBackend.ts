@@ -1,3 +1,5 @@
+import type { MergeStrategy } from '$lib/utils/mergeStrategies';
+
 export interface CommitInfo {
 	hash: string;
 	timestamp: number;
@@ -13,6 +15,7 @@ export interface GitStatus {
 export interface MergeResult {
 	success: boolean;
 	error?: string;
+	conflicts?: string[]; // Files with conflicts (the operation was aborted)
 }
 
 export interface OperationResult {
@@ -172,6 +175,44 @@ export class GitBackend {
 		);
 	}
 
+	/**
+	 * Rebase the branch onto its base branch (aborted if there are conflicts)
+	 */
+	async rebase(): Promise<MergeResult> {
+		return this.sendRequest<MergeResult>(
+			'rebase',
+			{},
+			'rebaseResult',
+			60000 // Rebasing many commits takes a while
+		);
+	}
+
+	/**
+	 * Merge the branch into its base branch like /ch-merge, but without Claude (aborted if there are conflicts)
+	 * @param strategy - Merge strategy (defaults to the repository's merge strategy)
+	 * @param commitMessage - Message of the squash or merge commit
+	 */
+	async merge(strategy?: MergeStrategy, commitMessage?: string): Promise<MergeResult> {
+		return this.sendRequest<MergeResult>(
+			'merge',
+			{ strategy, commitMessage },
+			'mergeResult',
+			300000 // Pushing to a remote base branch may be slow
+		);
+	}
+
+	/**
+	 * Get the default merge strategy of the repository
+	 */
+	async getMergeStrategy(): Promise<MergeStrategy | null> {
+		const response = await this.sendRequest<{ strategy: MergeStrategy | null }>(
+			'getMergeStrategy',
+			{},
+			'mergeStrategy'
+		);
+		return response.strategy;
+	}
+
 	/**
 	 * Restart the Claude process for this session
 	 */
@@ -0,0 +1,96 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * An agent profile describes which CLI agent a terminal tab runs in its worktree.
+ */
+export interface AgentProfile {
+	name: string;
+	command: string; // Executable name (looked up in PATH) or path relative to the repository root
+	args: string[];
+	env: { [key: string]: string };
+	resumeFlag: string | null; // Appended when adopting an existing worktree (null = agent can't resume)
+	permissionModes: boolean; // Whether the tab's permission mode flags are passed (Claude only)
+}
+
+/**
+ * Built-in profile used when the repository doesn't configure one.
+ */
+export const DEFAULT_AGENT_PROFILE: AgentProfile = {
+	name: 'claude',
+	command: 'claude',
+	args: [],
+	env: {},
+	resumeFlag: '--continue',
+	permissionModes: true
+};
+
+export const AGENT_PROFILES_FILE = '.claude-hydra.agents.json';
+
+export interface AgentProfilesConfig {
+	defaultProfile: string;
+	profiles: AgentProfile[];
+}
+
+/**
+ * Reads the agent profiles of a repository from .claude-hydra.agents.json.
+ *
+ * The built-in "claude" profile is always available unless the file overrides it.
+ * Invalid entries are skipped so that a broken config never prevents starting a session.
+ * @param repoRoot - Root directory of the main repository
+ */
+export function readAgentProfiles(repoRoot: string): AgentProfilesConfig {
+	const profiles = new Map<string, AgentProfile>([[DEFAULT_AGENT_PROFILE.name, DEFAULT_AGENT_PROFILE]]);
+	let defaultProfile = DEFAULT_AGENT_PROFILE.name;
+
+	const configPath = join(repoRoot, AGENT_PROFILES_FILE);
+	if (!existsSync(configPath)) {
+		return { defaultProfile, profiles: [...profiles.values()] };
+	}
+
+	try {
+		const config = JSON.parse(readFileSync(configPath, 'utf-8'));
+
+		for (const [name, entry] of Object.entries<any>(config.profiles || {})) {
+			if (!entry || typeof entry.command !== 'string' || !entry.command) {
+				console.error(`[agent-profiles] Skipping profile "${name}": "command" is required`);
+				continue;
+			}
+			profiles.set(name, {
+				name,
+				command: entry.command,
+				args: Array.isArray(entry.args) ? entry.args.map(String) : [],
+				env: entry.env && typeof entry.env === 'object' ? entry.env : {},
+				resumeFlag: typeof entry.resumeFlag === 'string' ? entry.resumeFlag : null,
+				permissionModes: entry.permissionModes !== false
+			});
+		}
+
+		if (typeof config.default === 'string' && profiles.has(config.default)) {
+			defaultProfile = config.default;
+		}
+	} catch (error) {
+		console.error(`Failed to read ${AGENT_PROFILES_FILE}:`, error);
+	}
+
+	return { defaultProfile, profiles: [...profiles.values()] };
+}
+
+/**
+ * Resolves a profile by name, falling back to the repository's default profile.
+ * @param repoRoot - Root directory of the main repository
+ * @param name - Requested profile name (optional)
+ */
+export function getAgentProfile(repoRoot: string, name?: string | null): AgentProfile {
+	const config = readAgentProfiles(repoRoot);
+	const byName = (n: string) => config.profiles.find(p => p.name === n);
+
+	if (name) {
+		const profile = byName(name);
+		if (profile) {
+			return profile;
+		}
+		console.error(`[agent-profiles] Unknown profile "${name}", using default "${config.defaultProfile}"`);
+	}
+	return byName(config.defaultProfile) || DEFAULT_AGENT_PROFILE;
+}
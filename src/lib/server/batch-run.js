@@ -0,0 +1,230 @@
+import WebSocket from 'ws';
+
+/**
+ * Client side of `claude-hydra run`: drives a running Claude Hydra server over the same
+ * WebSocket protocol as the browser, so the session is created by the regular
+ * PtyManager/SessionManager path (worktree, autoinit, hooks).
+ */
+
+/**
+ * Waits until the HTTP server responds. The request also makes the dev server load
+ * hooks.server.ts, which starts the WebSocket server.
+ * @param {number} httpPort
+ * @param {number} timeoutMs
+ */
+export async function waitForServer(httpPort, timeoutMs = 60000) {
+	const deadline = Date.now() + timeoutMs;
+	while (Date.now() < deadline) {
+		try {
+			await fetch(`http://localhost:${httpPort}/`);
+			return;
+		} catch {
+			await new Promise(resolve => setTimeout(resolve, 500));
+		}
+	}
+	throw new Error(`Server did not start within ${timeoutMs / 1000} seconds`);
+}
+
+/**
+ * Opens a WebSocket connection, retrying while the server is still starting up.
+ * @param {number} wsPort
+ * @returns {Promise<WebSocket>}
+ */
+async function connect(wsPort, attempts = 20) {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await new Promise((resolve, reject) => {
+				const ws = new WebSocket(`ws://localhost:${wsPort}`);
+				ws.once('open', () => resolve(ws));
+				ws.once('error', reject);
+			});
+		} catch (error) {
+			if (attempt >= attempts) {
+				throw error;
+			}
+			await new Promise(resolve => setTimeout(resolve, 500));
+		}
+	}
+}
+
+/**
+ * Creates a session, submits the prompt once Claude is ready and waits until Claude has finished.
+ * @param {object} options
+ * @param {number} options.httpPort
+ * @param {number} options.wsPort
+ * @param {string} options.repoPath - Absolute path of the repository
+ * @param {string} options.branchName - Branch of the new worktree
+ * @param {string} [options.baseBranchName] - Base branch (default: the repository's default branch)
+ * @param {string} options.prompt
+ * @param {string} [options.permissionMode]
+ * @param {number} [options.timeoutMinutes] - 0 = no timeout
+ * @returns {Promise<object>} JSON summary of the run
+ */
+export async function runPrompt(options) {
+	const { httpPort, wsPort, repoPath, branchName, baseBranchName, prompt, permissionMode, timeoutMinutes = 0 } = options;
+	const startedAt = Date.now();
+	const ws = await connect(wsPort);
+
+	// Messages relevant for the run (terminal output is not kept)
+	const relevantTypes = ['created', 'error', 'state', 'autoInitStatus', 'exit', 'gitBranchStatus', 'fileList'];
+	/** @type {any[]} */
+	const messages = [];
+	/** @type {Array<() => void>} */
+	const listeners = [];
+	ws.on('message', (raw) => {
+		try {
+			const message = JSON.parse(raw.toString());
+			if (!relevantTypes.includes(message.type)) {
+				return;
+			}
+			messages.push(message);
+		} catch {
+			return;
+		}
+		listeners.splice(0).forEach(listener => listener());
+	});
+
+	let closed = false;
+	ws.on('close', () => {
+		closed = true;
+		listeners.splice(0).forEach(listener => listener());
+	});
+
+	const deadline = timeoutMinutes > 0 ? startedAt + timeoutMinutes * 60000 : Infinity;
+
+	/**
+	 * Takes the first received message that matches (waiting for it if necessary)
+	 * @param {(message: any) => boolean} predicate
+	 * @param {number} until - Time (ms since epoch) at which to give up
+	 * @returns {Promise<any>} The message, or null on timeout/disconnect
+	 */
+	const waitFor = async (predicate, until = deadline) => {
+		while (true) {
+			const index = messages.findIndex(predicate);
+			if (index !== -1) {
+				return messages.splice(index, 1)[0];
+			}
+			if (closed || Date.now() >= until) {
+				return null;
+			}
+			await new Promise(resolve => {
+				listeners.push(() => resolve(undefined));
+				if (until !== Infinity) {
+					setTimeout(resolve, until - Date.now());
+				}
+			});
+		}
+	};
+
+	/** @param {object} message */
+	const send = (message) => ws.send(JSON.stringify(message));
+
+	/** @param {string} status */
+	const finish = async (status, error = '') => {
+		/** @type {any} */
+		const summary = { status, branchName, baseBranchName: '', durationSeconds: 0, commits: [], changedFiles: [], uncommittedFiles: [], gitStatus: null, error: error || undefined };
+		summary.baseBranchName = created?.baseBranchName || baseBranchName || '';
+
+		if (created && !closed) {
+			// Drop status messages sent before, so that the summary reflects the final state
+			// (collected with its own timeout, also when the run itself timed out)
+			messages.length = 0;
+			const summaryDeadline = Date.now() + 30000;
+			send({ type: 'getGitStatus' });
+			const statusMessage = await waitFor(m => m.type === 'gitBranchStatus' && m.commitLog !== undefined, summaryDeadline);
+			if (statusMessage) {
+				summary.gitStatus = statusMessage.gitStatus;
+				summary.commits = statusMessage.commitLog.map((/** @type {any} */ commit) => ({
+					hash: commit.hash,
+					timestamp: commit.timestamp,
+					message: commit.fullMessage.trim()
+				}));
+
+				// Files changed by the commits (oldest first, so later changes win)
+				/** @type {Map<string, string>} */
+				const changed = new Map();
+				for (const commit of [...statusMessage.commitLog].reverse()) {
+					send({ type: 'requestFileList', commitId: commit.hash });
+					const fileList = await waitFor(m => m.type === 'fileList' && m.commitId === commit.hash, summaryDeadline);
+					for (const file of fileList?.files || []) {
+						if (file.status !== 'unchanged' && file.status !== 'ignored' && !file.isDirectory) {
+							changed.set(file.path, file.status);
+						}
+					}
+				}
+				summary.changedFiles = [...changed].map(([path, status]) => ({ path, status }));
+
+				send({ type: 'requestFileList', commitId: null });
+				const workingTree = await waitFor(m => m.type === 'fileList' && m.commitId === null, summaryDeadline);
+				summary.uncommittedFiles = (workingTree?.files || [])
+					.filter((/** @type {any} */ file) => file.status !== 'unchanged' && file.status !== 'ignored' && !file.isDirectory)
+					.map((/** @type {any} */ file) => ({ path: file.path, status: file.status }));
+			}
+		}
+
+		summary.durationSeconds = Math.round((Date.now() - startedAt) / 1000);
+		ws.close();
+		return summary;
+	};
+
+	/** @type {any} */
+	let created = null;
+	send({ type: 'create', repoPath, branchName, baseBranchName, permissionMode, adoptExisting: false });
+	const createResult = await waitFor(m => m.type === 'created' || m.type === 'error');
+	if (!createResult || createResult.type === 'error') {
+		return finish('failed', createResult?.error || 'Could not create the session');
+	}
+	created = createResult;
+	console.error(`[claude-hydra run] Created worktree for ${created.branchName} (base: ${created.baseBranchName})`);
+
+	// Wait until Claude shows its prompt and the autoinit script is done
+	let ready = false;
+	let autoInitRunning = false;
+	while (!ready || autoInitRunning) {
+		const message = await waitFor(m => m.type === 'state' || m.type === 'autoInitStatus' || m.type === 'exit');
+		if (!message) {
+			return finish('timeout', 'Claude did not become ready');
+		}
+		if (message.type === 'exit') {
+			return finish('exited', 'Claude exited before the prompt was submitted');
+		}
+		if (message.type === 'state') {
+			ready = message.state === 'ready';
+		} else {
+			autoInitRunning = message.status === 'running';
+			if (message.status === 'failed') {
+				console.error('[claude-hydra run] Autoinit script failed - submitting the prompt anyway');
+			}
+		}
+	}
+
+	const response = await fetch(`http://localhost:${httpPort}/prompt/${encodeURIComponent(created.repoHash)}/${encodeURIComponent(created.branchName)}`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${created.token}` },
+		body: JSON.stringify({ prompt })
+	}).catch(error => ({ ok: false, json: async () => ({ error: error.message }) }));
+	if (!response.ok) {
+		const { error } = await response.json();
+		return finish('failed', `Could not submit the prompt: ${error}`);
+	}
+	console.error('[claude-hydra run] Prompt submitted, waiting for Claude to finish...');
+
+	// The Stop hook reports 'ready' once Claude has finished processing the prompt
+	let running = false;
+	while (true) {
+		const message = await waitFor(m => m.type === 'state' || m.type === 'exit');
+		if (!message) {
+			return finish(closed ? 'failed' : 'timeout', closed ? 'Lost connection to the server' : 'Claude did not finish in time');
+		}
+		if (message.type === 'exit') {
+			return finish('exited', 'Claude exited while processing the prompt');
+		}
+		if (message.state === 'running' || message.state === 'queued') {
+			running = true;
+		} else if (message.state === 'attention') {
+			console.error('[claude-hydra run] Claude waits for a permission or an answer - open its tab in the browser to respond');
+		} else if (message.state === 'ready' && running) {
+			return finish('completed');
+		}
+	}
+}
@@ -0,0 +1,116 @@
+import { execFile } from 'child_process';
+
+/**
+ * Asynchronous git execution.
+ *
+ * All git commands of the server run through here instead of execSync, so a slow command
+ * (fetch on a big repository, worktree add, status on a huge working tree) only delays the
+ * request that issued it - terminal I/O and other repositories keep going meanwhile.
+ *
+ * Git is spawned without a shell and gets its arguments as an array, so branch names and
+ * file paths are passed to git verbatim - quotes, spaces or $(...) in them have no effect.
+ */
+
+export const GIT_TIMEOUT = 60000; // Default for local commands
+export const GIT_NETWORK_TIMEOUT = 300000; // Commands talking to remotes (fetch, push)
+
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+export interface GitOptions {
+	cwd: string;
+	timeout?: number; // Milliseconds until the command is killed (0 = no timeout, default GIT_TIMEOUT)
+	signal?: AbortSignal; // Kills the command when aborted
+	env?: NodeJS.ProcessEnv; // Extra environment variables
+}
+
+/**
+ * A git command that failed, timed out or was cancelled.
+ */
+export class GitError extends Error {
+	constructor(
+		message: string,
+		public readonly command: string,
+		public readonly exitCode: number | null,
+		public readonly stdout: string,
+		public readonly stderr: string,
+		public readonly timedOut: boolean = false,
+		public readonly cancelled: boolean = false
+	) {
+		super(message);
+		this.name = 'GitError';
+	}
+}
+
+/**
+ * Runs a git command and returns its stdout.
+ * @param args - Arguments after "git", one array element per argument
+ * @throws {GitError} If git exits with a non-zero code, times out or is cancelled
+ */
+export function runGit(args: string[], options: GitOptions): Promise<string> {
+	const command = `git ${args.join(' ')}`; // For messages only
+	const timeout = options.timeout ?? GIT_TIMEOUT;
+
+	return new Promise((resolve, reject) => {
+		execFile('git', args, {
+			cwd: options.cwd,
+			encoding: 'utf8',
+			maxBuffer: MAX_BUFFER,
+			timeout,
+			signal: options.signal,
+			windowsHide: true,
+			// Never wait for credentials or an editor - there is nobody to answer
+			env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_EDITOR: 'true', ...options.env }
+		}, (error, stdout, stderr) => {
+			if (!error) {
+				resolve(stdout);
+				return;
+			}
+
+			const cancelled = error.name === 'AbortError' || !!options.signal?.aborted;
+			const timedOut = !cancelled && !!error.killed && timeout > 0;
+			const reason = cancelled
+				? 'was cancelled'
+				: timedOut
+					? `timed out after ${timeout / 1000}s`
+					: `failed: ${stderr.trim() || error.message}`;
+			reject(new GitError(`${command} ${reason}`, command, typeof error.code === 'number' ? error.code : null, stdout, stderr, timedOut, cancelled));
+		});
+	});
+}
+
+/**
+ * Runs a git command and reports whether it succeeded (for checks like "does this ref exist").
+ */
+export async function tryGit(args: string[], options: GitOptions): Promise<boolean> {
+	try {
+		await runGit(args, options);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Checks whether a name can be used as a branch name (git check-ref-format --branch).
+ * Names starting with "-" are rejected as well, since git would parse them as options.
+ * @param cwd - Any directory inside the repository
+ */
+export async function isValidBranchName(name: string, cwd: string): Promise<boolean> {
+	if (!name || name.startsWith('-')) {
+		return false;
+	}
+	try {
+		// check-ref-format expands "@{-1}" and the like - only accept names that are taken literally
+		const normalized = (await runGit(['check-ref-format', '--branch', name], { cwd })).trim();
+		return normalized === name;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Checks whether a string looks like an (abbreviated) commit hash as shown in the commit list.
+ */
+export function isCommitHash(value: string): boolean {
+	return /^[0-9a-f]{4,40}$/i.test(value);
+}
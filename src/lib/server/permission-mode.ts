@@ -0,0 +1,86 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * How Claude asks for permission before using tools:
+ * - skip: never ask (--dangerously-skip-permissions)
+ * - default: ask for every tool use not allowed by the user's settings
+ * - plan: plan mode, Claude doesn't modify anything until the plan is accepted
+ * - allowlist: like default, but the rules in .claude-hydra.allowlist are pre-approved
+ */
+export type PermissionMode = 'skip' | 'default' | 'plan' | 'allowlist';
+
+export const PERMISSION_MODES: PermissionMode[] = ['skip', 'default', 'plan', 'allowlist'];
+
+/**
+ * Mode used for new tabs and for branches without a stored mode
+ * (matches the behavior before permission modes were configurable).
+ */
+export const DEFAULT_PERMISSION_MODE: PermissionMode = 'skip';
+
+export const ALLOWLIST_FILE = '.claude-hydra.allowlist';
+
+/**
+ * Rules that are always allowed in allowlist mode (read-only tools and git inspection).
+ */
+const DEFAULT_ALLOWLIST = [
+	'Read',
+	'Glob',
+	'Grep',
+	'Bash(git status:*)',
+	'Bash(git diff:*)',
+	'Bash(git log:*)'
+];
+
+export function isPermissionMode(value: unknown): value is PermissionMode {
+	return typeof value === 'string' && (PERMISSION_MODES as string[]).includes(value);
+}
+
+/**
+ * Gets the Claude command line arguments for a permission mode.
+ */
+export function getPermissionModeArgs(mode: PermissionMode): string[] {
+	switch (mode) {
+		case 'skip':
+			return ['--dangerously-skip-permissions'];
+		case 'plan':
+			return ['--permission-mode', 'plan'];
+		case 'default':
+		case 'allowlist':
+			return ['--permission-mode', 'default'];
+	}
+}
+
+/**
+ * Reads the permission rules for allowlist mode from .claude-hydra.allowlist.
+ *
+ * Format: one Claude permission rule per line (e.g. "Bash(npm test:*)"),
+ * lines starting with # are comments.
+ * @param repoRoot - Root directory of the main repository
+ */
+export function readAllowlistConfig(repoRoot: string): string[] {
+	const rules = [...DEFAULT_ALLOWLIST];
+
+	const configPath = join(repoRoot, ALLOWLIST_FILE);
+	if (!existsSync(configPath)) {
+		return rules;
+	}
+
+	try {
+		const content = readFileSync(configPath, 'utf-8');
+		const configRules = content
+			.split('\n')
+			.map(line => line.trim())
+			.filter(line => line && !line.startsWith('#')); // Filter empty lines and comments
+
+		for (const rule of configRules) {
+			if (!rules.includes(rule)) {
+				rules.push(rule);
+			}
+		}
+	} catch (error) {
+		console.error(`Failed to read ${ALLOWLIST_FILE}:`, error);
+	}
+
+	return rules;
+}
@@ -0,0 +1,29 @@
+import type { PtyManager } from './pty-manager';
+
+// Singleton instance of PtyManager
+// This MUST be initialized by hooks.server.ts on server startup
+let ptyManagerInstance: PtyManager | null = null;
+
+/**
+ * Gets the singleton PtyManager instance.
+ * @throws {Error} If PtyManager has not been initialized by hooks.server.ts
+ */
+export function getPtyManager(): PtyManager {
+	if (!ptyManagerInstance) {
+		throw new Error(
+			'PtyManager not initialized. This should never happen - hooks.server.ts must initialize it on startup.'
+		);
+	}
+	return ptyManagerInstance;
+}
+
+/**
+ * Sets the singleton PtyManager instance.
+ * Should only be called once by hooks.server.ts during server initialization.
+ */
+export function setPtyManager(instance: PtyManager): void {
+	if (ptyManagerInstance) {
+		console.warn('PtyManager instance is being replaced. This may indicate HMR reload.');
+	}
+	ptyManagerInstance = instance;
+}
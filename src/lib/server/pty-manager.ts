@@ -1,10 +1,10 @@
 import * as pty from '@homebridge/node-pty-prebuilt-multiarch';
 import { v4 as uuidv4 } from 'uuid';
-import { execSync, spawn } from 'child_process';
-import { existsSync, readFileSync, writeFileSync, appendFileSync, mkdirSync } from 'fs';
-import { join, dirname, resolve } from 'path';
+import { execFileSync, execSync, spawn } from 'child_process';
+import { existsSync, readFileSync, writeFileSync, appendFileSync, mkdirSync, unlinkSync } from 'fs';
+import { join, dirname, resolve, isAbsolute } from 'path';
 import type { RepositoryRegistry } from '$lib/server/repository-registry';
-import type { SessionInfo } from '$lib/server/session-manager';
+import type { SessionInfo, SessionManager } from '$lib/server/session-manager';
 import updateStateTemplate from '../../template/update-state.js?raw';
 import chCommitTemplate from '../../template/commands/ch-commit.md?raw';
 import chMergeTemplate from '../../template/commands/ch-merge.md?raw';
@@ -12,62 +12,150 @@ import chRebaseTemplate from '../../template/commands/ch-rebase.md?raw';
 import chCloseTemplate from '../../template/commands/ch-close.md?raw';
 import chWaituserTemplate from '../../template/commands/ch-waituser.md?raw';
 import chOpenTemplate from '../../template/commands/ch-open.md?raw';
-import { sendReadyStateWithGitStatus } from './websocket-manager';
+import { sendReadyStateWithGitStatus, sendResourceUsage, sendTokenUsage, getBranchState, sendHibernated } from './websocket-manager';
+import { releaseRunSlot } from './run-queue';
+import { runGit } from './git-runner';
+import { ScrollbackBuffer } from './scrollback-buffer';
+import { SessionRecorder } from './session-recorder';
+import { type ResourceSample, ProcessSampler, RESOURCE_SAMPLE_INTERVAL, RESOURCE_HISTORY_LENGTH, sumUsage } from './resource-monitor';
+import { getAgentProfile } from './agent-profiles';
+import { type TokenUsage, TokenUsageTracker, TOKEN_USAGE_INTERVAL, saveUsageHistory } from './token-usage';
+import { dispatchWebhookEvent } from './webhooks';
+import { getFileServerSecret } from './secret-instance';
+import { type PermissionMode, DEFAULT_PERMISSION_MODE, isPermissionMode, getPermissionModeArgs, readAllowlistConfig } from './permission-mode';
+
+export type AutoInitStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A plain shell running in the worktree of a session (shown as sub-tab next to Claude).
+ */
+export interface ShellSession {
+	id: string;
+	title: string;
+	ptyProcess: pty.IPty;
+	scrollback: ScrollbackBuffer;
+}
+
+/**
+ * Choices made when starting a session. Unset values fall back to the
+ * value stored for the branch, then to the repository default.
+ */
+export interface SessionOptions {
+	agentProfile?: string;
+	permissionMode?: PermissionMode;
+	record?: boolean; // Record the terminal output to an asciicast file
+}
 
 export interface TerminalSession {
 	id: string;
 	branchName: string;
 	ptyProcess: pty.IPty;
 	autoInitProcess?: ReturnType<typeof spawn>;
+	autoInitCancelled?: boolean; // Set when the user cancels the running autoinit script
+	autoInitLog: ScrollbackBuffer; // stdout/stderr of the last autoinit run
 	onData: (data: string) => void;
 	onExit: () => void;
 	waitForPrompt: boolean;
+	scrollback: ScrollbackBuffer;
+	recorder?: SessionRecorder;
+	worktreePath: string;
+	env: { [key: string]: string }; // Environment of the agent, shared by auxiliary shells
+	shells: Map<string, ShellSession>;
+	shellCount: number; // Number of shells ever opened (for numbering their titles)
+	// Client callbacks - replaced when a new client reattaches to the session
+	sendData: (sessionId: string, data: string) => void;
+	sendExit: (sessionId: string) => void;
+	sendAutoInitStatus: (sessionId: string, status: AutoInitStatus, stderr?: string) => void;
+	autoInit?: { status: AutoInitStatus; stderr?: string }; // Last autoinit status, replayed on attach
+	sendShellData: (shellId: string, data: string) => void;
+	sendShellExit: (shellId: string) => void;
+	sendAutoInitOutput: (sessionId: string, data: string) => void;
+	resourceHistory: ResourceSample[]; // Recent CPU/memory samples of the session's process trees
+	tokenUsage?: SessionTokenUsage; // Latest token usage read from the worktree's transcripts
+	focused: boolean; // Whether the session's tab is the active tab in a visible browser window
+	lastActivity: number; // Time of the last output, input or focus change (for idle hibernation)
+}
+
+export interface SessionTokenUsage {
+	total: TokenUsage;
+	today: TokenUsage;
+}
+
+export interface AttachResult {
+	sessionInfo: SessionInfo;
+	scrollback: string;
+	autoInit?: { status: AutoInitStatus; stderr?: string };
+	autoInitLog: string;
+	resourceHistory: ResourceSample[];
+	tokenUsage?: SessionTokenUsage;
 }
 
 export class PtyManager {
 	private sessions = new Map<string, TerminalSession>();
-	private claudePath: string | null = null;
+	private commandPaths = new Map<string, string>(); // Cache of resolved agent executables
 	private repositoryRegistry: RepositoryRegistry;
 	private mergingSessions = new Set<string>(); // Track sessions being merged
 	private destroyedSessions = new Set<string>(); // Track destroyed sessions
+	private processSampler = new ProcessSampler();
+	private resourceTimer: NodeJS.Timeout | null = null; // Samples resource usage while sessions exist
+	private isSampling = false;
+	private usageTracker = new TokenUsageTracker();
+	private usageTimer: NodeJS.Timeout | null = null; // Reads token usage while sessions exist
+	private isReadingUsage = false;
+	private idleTimeoutMinutes = 0; // 0 = never hibernate idle sessions
+	private idleTimer: NodeJS.Timeout | null = null;
+	private hibernatedSessions = new Set<string>(); // Sessions whose PTY was stopped while idle (worktree kept)
 
 	constructor(repositoryRegistry: RepositoryRegistry) {
 		this.repositoryRegistry = repositoryRegistry;
 	}
 
-	private getClaudePath(): string {
-		if (this.claudePath) {
-			return this.claudePath;
+	/**
+	 * Resolves the full path of an agent executable.
+	 * Commands containing a path separator (e.g. wrapper scripts) are resolved relative to the repository root.
+	 */
+	private getCommandPath(command: string, repoRoot: string): string {
+		if (isAbsolute(command) || command.includes('/') || command.includes('\\')) {
+			return resolve(repoRoot, command);
+		}
+
+		const cached = this.commandPaths.get(command);
+		if (cached) {
+			return cached;
 		}
 
 		try {
-			// On Windows, use 'where' to find the executable
-			const command = process.platform === 'win32' ? 'where claude' : 'which claude';
-			const output = execSync(command, { encoding: 'utf8' });
-			const paths = output.trim().split('\n');
+			// On Windows, use 'where' to find the executable (the command comes from the profile config, so no shell)
+			const lookup = process.platform === 'win32' ? 'where' : 'which';
+			const output = execFileSync(lookup, [command], { encoding: 'utf8' });
+			const paths = output.trim().split('\n').map(p => p.trim());
 
 			// On Windows, prefer .cmd or .exe versions for node-pty compatibility
 			if (process.platform === 'win32') {
 				const cmdPath = paths.find(p => p.endsWith('.cmd') || p.endsWith('.exe'));
 				if (cmdPath) {
-					this.claudePath = cmdPath;
-					return this.claudePath;
+					this.commandPaths.set(command, cmdPath);
+					return cmdPath;
 				}
 			}
 
 			// Fallback to first match
-			this.claudePath = paths[0];
-			return this.claudePath;
+			this.commandPaths.set(command, paths[0]);
+			return paths[0];
 		} catch (error) {
-			throw new Error('Claude executable not found in PATH. Please ensure Claude Code is installed.');
+			if (command === 'claude') {
+				throw new Error('Claude executable not found in PATH. Please ensure Claude Code is installed.');
+			}
+			throw new Error(`Agent executable "${command}" not found in PATH.`);
 		}
 	}
 
-	private setupClaudeHooks(worktreePath: string, branchName: string, repoRoot: string): void {
+	private setupClaudeHooks(worktreePath: string, branchName: string, repoRoot: string, permissionMode: PermissionMode): void {
 		const claudeDir = join(worktreePath, '.claude');
 		const hooksDir = join(claudeDir, 'hooks');
 		const commandsDir = join(claudeDir, 'commands');
 		const settingsPath = join(claudeDir, 'settings.local.json');
+		const allowlistRulesPath = join(claudeDir, 'hydra-allowlist-rules.json');
 		const hookScriptPath = join(hooksDir, 'update-state.js');
 		const gitExcludePath = join(repoRoot, '.git', 'info', 'exclude');
 
@@ -109,15 +197,26 @@ export class PtyManager {
 		// Use forward slashes for cross-platform compatibility (Node.js handles them on Windows too)
 		const hookScriptAbsPath = hookScriptPath.replace(/\\/g, '/');
 		const runningCommand = `node "${hookScriptAbsPath}" running`;
+		const promptCommand = `node "${hookScriptAbsPath}" prompt`;
 		const readyCommand = `node "${hookScriptAbsPath}" ready`;
+		const attentionCommand = `node "${hookScriptAbsPath}" attention`;
+
+		// Remove the hooks of an earlier setup (e.g. of an adopted worktree), so that events aren't
+		// reported twice and worktrees set up by older versions get the current hook commands
+		for (const event of ['UserPromptSubmit', 'PreToolUse', 'Stop', 'Notification']) {
+			settings.hooks[event] = (settings.hooks[event] || []).filter((entry: any) =>
+				!entry.hooks?.some((hook: any) => typeof hook.command === 'string' && hook.command.includes(hookScriptAbsPath)));
+		}
 
 		// Use new hooks format with matchers
 		// UserPromptSubmit fires when user submits a prompt = Claude STARTS processing = running
+		// The hook blocks while the prompt waits in the run queue, so it needs a long timeout (seconds)
 		settings.hooks.UserPromptSubmit = settings.hooks.UserPromptSubmit || [];
 		settings.hooks.UserPromptSubmit.push({
 			hooks: [{
 				type: 'command',
-				command: runningCommand
+				command: promptCommand,
+				timeout: 86400
 			}]
 		});
 
@@ -139,15 +238,60 @@ export class PtyManager {
 			}]
 		});
 
-		// Notification fires when Claude sends notifications (waiting for input, etc.) = ready
+		// Notification fires when Claude asks for permission or waits for an answer = needs attention
+		// (update-state.js reports the reminder sent while Claude is idle as ready)
 		settings.hooks.Notification = settings.hooks.Notification || [];
 		settings.hooks.Notification.push({
 			hooks: [{
 				type: 'command',
-				command: readyCommand
+				command: attentionCommand
 			}]
 		});
 
+		// Remove the allowlist rules of an earlier setup, so they don't outlive the allowlist mode
+		// (or a rule deleted from .claude-hydra.allowlist); rules approved by the user are kept
+		let addedRules: string[] = [];
+		if (existsSync(allowlistRulesPath)) {
+			try {
+				addedRules = JSON.parse(readFileSync(allowlistRulesPath, 'utf-8'));
+			} catch (error) {
+				console.error(`Failed to read ${allowlistRulesPath}:`, error);
+			}
+		}
+		if (Array.isArray(settings.permissions?.allow) && addedRules.length > 0) {
+			settings.permissions.allow = settings.permissions.allow.filter((rule: string) => !addedRules.includes(rule));
+			if (settings.permissions.allow.length === 0) {
+				delete settings.permissions.allow;
+			}
+			if (Object.keys(settings.permissions).length === 0) {
+				delete settings.permissions;
+			}
+		}
+		addedRules = [];
+
+		// In allowlist mode, pre-approve the configured permission rules
+		// (merged with rules the user already approved with "don't ask again")
+		if (permissionMode === 'allowlist') {
+			if (!settings.permissions) {
+				settings.permissions = {};
+			}
+			const allow: string[] = settings.permissions.allow || [];
+			for (const rule of readAllowlistConfig(repoRoot)) {
+				if (!allow.includes(rule)) {
+					allow.push(rule);
+					addedRules.push(rule);
+				}
+			}
+			settings.permissions.allow = allow;
+		}
+
+		// Remember which rules were added (to remove them again when the mode changes)
+		if (addedRules.length > 0) {
+			writeFileSync(allowlistRulesPath, JSON.stringify(addedRules, null, 2));
+		} else if (existsSync(allowlistRulesPath)) {
+			unlinkSync(allowlistRulesPath);
+		}
+
 		// Write settings back
 		writeFileSync(settingsPath, JSON.stringify(settings, null, 2));
 
@@ -205,7 +349,8 @@ export class PtyManager {
 	private executeAutoInitScript(
 		sessionId: string,
 		worktreePath: string,
-		onStatus: (status: 'running' | 'completed' | 'failed', stderr?: string) => void
+		onStatus: (status: AutoInitStatus, stderr?: string) => void,
+		onOutput: (data: string) => void
 	): ReturnType<typeof spawn> | null {
 		const isWindows = process.platform === 'win32';
 
@@ -256,28 +401,37 @@ export class PtyManager {
 		onStatus('running');
 
 		// Spawn the process asynchronously
+		// On Unix, run it in its own process group so cancelling also stops its children (e.g. npm)
 		const childProcess = spawn(command, args, {
 			cwd: worktreePath,
-			shell: false
+			shell: false,
+			detached: !isWindows
 		});
 
 		let stderrBuffer = '';
 
-		// Capture stderr
+		// Capture stderr and stream it to the log panel
 		childProcess.stderr?.on('data', (data: Buffer) => {
 			const text = data.toString();
 			stderrBuffer += text;
 			console.error(`[AutoInit] stderr: ${text}`);
+			onOutput(text);
 		});
 
-		// Log stdout (optional - could be forwarded to terminal if needed)
+		// Stream stdout to the log panel
 		childProcess.stdout?.on('data', (data: Buffer) => {
-			console.log(`[AutoInit] stdout: ${data.toString()}`);
+			const text = data.toString();
+			console.log(`[AutoInit] stdout: ${text}`);
+			onOutput(text);
 		});
 
 		// Handle process completion
 		childProcess.on('close', (code: number | null) => {
-			if (code === 0) {
+			const session = this.sessions.get(sessionId);
+			if (session?.autoInitCancelled) {
+				console.log(`[AutoInit] Script cancelled`);
+				onStatus('cancelled');
+			} else if (code === 0) {
 				console.log(`[AutoInit] Script completed successfully`);
 				onStatus('completed');
 			} else {
@@ -286,7 +440,6 @@ export class PtyManager {
 			}
 
 			// Clean up process reference from session
-			const session = this.sessions.get(sessionId);
 			if (session) {
 				session.autoInitProcess = undefined;
 			}
@@ -306,95 +459,269 @@ export class PtyManager {
 		return childProcess;
 	}
 
+	/**
+	 * Kills an autoinit process including the processes it started.
+	 */
+	private killAutoInitProcess(childProcess: ReturnType<typeof spawn>): void {
+		if (!childProcess.pid) {
+			return;
+		}
+		try {
+			if (process.platform === 'win32') {
+				execSync(`taskkill /pid ${childProcess.pid} /T /F`, { stdio: 'ignore' });
+			} else {
+				// Negative pid = the whole process group (spawned detached)
+				process.kill(-childProcess.pid, 'SIGTERM');
+			}
+		} catch (error) {
+			// Process group already gone - fall back to killing the process itself
+			childProcess.kill();
+		}
+	}
+
+	/**
+	 * Starts the autoinit script of a session's worktree and streams its status and output to the client.
+	 * @returns True if an autoinit script was found and started
+	 */
+	private startAutoInit(session: TerminalSession): boolean {
+		session.autoInitCancelled = false;
+		session.autoInitLog.clear();
+
+		const autoInitProcess = this.executeAutoInitScript(
+			session.id,
+			session.worktreePath,
+			(status, stderr) => {
+				session.autoInit = { status, stderr };
+				session.sendAutoInitStatus(session.id, status, stderr);
+				if (status === 'failed') {
+					const repoHash = this.repositoryRegistry.getRepositoryBySessionId(session.id)?.getRepoHash();
+					if (repoHash) {
+						dispatchWebhookEvent(repoHash, session.branchName, 'autoinit.failed', { error: stderr });
+					}
+				}
+			},
+			(data) => {
+				session.autoInitLog.append(data);
+				session.sendAutoInitOutput(session.id, data);
+			}
+		);
+		if (autoInitProcess) {
+			session.autoInitProcess = autoInitProcess;
+			return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Cancels the running autoinit script of a session.
+	 * @returns True if a running script was cancelled
+	 */
+	cancelAutoInit(sessionId: string): boolean {
+		const session = this.sessions.get(sessionId);
+		if (!session?.autoInitProcess) {
+			return false;
+		}
+		console.log(`[AutoInit] Cancelling autoinit script for session ${sessionId}`);
+		session.autoInitCancelled = true;
+		this.killAutoInitProcess(session.autoInitProcess);
+		return true;
+	}
+
+	/**
+	 * Runs the autoinit script of a session again (e.g. after it failed or was cancelled).
+	 * @throws Error if the script is still running or no autoinit script exists
+	 */
+	rerunAutoInit(sessionId: string): void {
+		const session = this.sessions.get(sessionId);
+		if (!session || this.destroyedSessions.has(sessionId)) {
+			throw new Error('Session not found');
+		}
+		if (session.autoInitProcess) {
+			throw new Error('Autoinit script is still running');
+		}
+		if (!this.startAutoInit(session)) {
+			throw new Error('No autoinit script found in the worktree');
+		}
+	}
+
+	/**
+	 * Sets the client callback for streamed autoinit output (set after create/attach).
+	 */
+	setAutoInitOutputCallback(sessionId: string, onAutoInitOutput: (sessionId: string, data: string) => void): void {
+		const session = this.sessions.get(sessionId);
+		if (session) {
+			session.sendAutoInitOutput = onAutoInitOutput;
+		}
+	}
+
 	getBranchName(sessionId: string): string | undefined {
 		return this.sessions.get(sessionId)?.branchName;
 	}
 
+	/**
+	 * Types a prompt into the agent of a session and submits it.
+	 * The prompt is sent as a bracketed paste so that newlines don't submit it early.
+	 * @returns false if the session has no running agent (e.g. hibernated)
+	 */
+	submitPrompt(sessionId: string, prompt: string): boolean {
+		if (!this.sessions.has(sessionId)) {
+			return false;
+		}
+		// Strip paste markers from the text so it can't end the paste itself
+		const text = prompt.replace(/\x1b\[20[01]~/g, '');
+		this.write(sessionId, `\x1b[200~${text}\x1b[201~`);
+		// Submit separately - Enter arriving in the same chunk as the paste is taken as part of it
+		setTimeout(() => this.write(sessionId, '\r'), 100);
+		return true;
+	}
+
 	async createSession(
 		repoPath: string,
 		branchName: string,
 		onData: (sessionId: string, data: string) => void,
 		onExit: (sessionId: string) => void,
-		onAutoInitStatus: (sessionId: string, status: 'running' | 'completed' | 'failed', stderr?: string) => void,
+		onAutoInitStatus: (sessionId: string, status: AutoInitStatus, stderr?: string) => void,
 		baseUrl: string,
 		adoptExisting: boolean = false,
-		baseBranchName?: string
+		baseBranchName?: string,
+		options: SessionOptions = {}
 	): Promise<SessionInfo> {
+		const { agentProfile: agentProfileName, permissionMode } = options;
 		const sessionId = uuidv4();
 
 		// Get or create SessionManager for this repository
-		const sessionManager = this.repositoryRegistry.getOrCreateRepository(repoPath);
+		const sessionManager = await this.repositoryRegistry.getOrCreateRepository(repoPath);
+
+		// A resumed hibernated session replaces the stopped one
+		if (adoptExisting) {
+			this.forgetHibernatedSession(sessionManager, branchName);
+		}
 
 		// Register session with repository
 		this.repositoryRegistry.registerSession(sessionId, repoPath);
 
 		// Create isolated git worktree session
 		const sessionInfo = await sessionManager.createSession(sessionId, branchName, adoptExisting, baseBranchName);
+		// A remote ref (e.g. "origin/feature/login") was checked out as local branch - use that from here on
+		branchName = sessionInfo.branchName;
 
 		// Get the actual main repository root (not the worktree path)
 		// Use git-common-dir to get the main .git directory, then get its parent
-		const gitCommonDir = execSync('git rev-parse --git-common-dir', {
-			cwd: sessionInfo.worktreePath,
-			encoding: 'utf8'
-		}).trim();
+		const gitCommonDir = (await runGit(['rev-parse', '--git-common-dir'], { cwd: sessionInfo.worktreePath })).trim();
 		// gitCommonDir might be relative (e.g., ".git"), so resolve it to absolute path
 		const absoluteGitDir = resolve(sessionInfo.worktreePath, gitCommonDir);
 		// The gitCommonDir points to .git, so get its parent to find the repo root
 		const repoRoot = dirname(absoluteGitDir);
 
+		// Resolve the permission mode: explicitly chosen > stored for this branch > default
+		if (permissionMode) {
+			await sessionManager.setPermissionModeForBranch(branchName, permissionMode);
+		}
+		const storedPermissionMode = await sessionManager.getPermissionModeForBranch(branchName);
+		sessionInfo.permissionMode = permissionMode
+			|| (isPermissionMode(storedPermissionMode) ? storedPermissionMode : DEFAULT_PERMISSION_MODE);
+
 		// Setup Claude hooks
-		this.setupClaudeHooks(sessionInfo.worktreePath, branchName, repoRoot);
+		this.setupClaudeHooks(sessionInfo.worktreePath, branchName, repoRoot, sessionInfo.permissionMode);
+
+		// Resolve the agent profile: explicitly chosen > stored for this branch > repository default
+		if (agentProfileName) {
+			await sessionManager.setAgentProfileForBranch(branchName, agentProfileName);
+		}
+		const profile = getAgentProfile(repoRoot, agentProfileName || await sessionManager.getAgentProfileForBranch(branchName));
 
-		// Get the full path to claude executable
-		const claudePath = this.getClaudePath();
+		// Get the full path to the agent executable
+		const commandPath = this.getCommandPath(profile.command, repoRoot);
 
 		// Get repository hash for unique identification
 		const repoHash = sessionManager.getRepoHash();
 
-		// Prepare environment with CLAUDE_HYDRA_BASEURL, CLAUDE_HYDRA_BASE_BRANCH, and CLAUDE_HYDRA_REPO_HASH
+		// Prepare environment with CLAUDE_HYDRA_BASEURL, CLAUDE_HYDRA_BASE_BRANCH, CLAUDE_HYDRA_REPO_HASH
+		// and CLAUDE_HYDRA_TOKEN (authorizes requests to the prompt endpoint)
 		const env = {
 			...process.env,
+			...profile.env,
 			CLAUDE_HYDRA_BASEURL: baseUrl,
 			CLAUDE_HYDRA_BASE_BRANCH: sessionInfo.baseBranchName,
-			CLAUDE_HYDRA_REPO_HASH: repoHash
+			CLAUDE_HYDRA_REPO_HASH: repoHash,
+			CLAUDE_HYDRA_TOKEN: getFileServerSecret()
 		} as { [key: string]: string };
 
-		// Prepare arguments: add --continue flag only when adopting existing session
-		const args = ['--dangerously-skip-permissions'];
-		if (adoptExisting) {
-			args.push('--continue');
+		// Prepare arguments: add the profile's resume flag only when adopting existing session
+		const args = [...profile.args];
+		if (profile.permissionModes) {
+			args.push(...getPermissionModeArgs(sessionInfo.permissionMode));
+		}
+		if (adoptExisting && profile.resumeFlag) {
+			args.push(profile.resumeFlag);
 		}
 
-		// Spawn claude directly with full path, using worktree as cwd
-		const ptyProcess = pty.spawn(claudePath, args, {
+		// Spawn the agent directly with full path, using worktree as cwd
+		console.log(`[pty-manager.createSession] Starting agent profile "${profile.name}" for branch ${branchName}`);
+		const cols = 80;
+		const rows = 30;
+		const ptyProcess = pty.spawn(commandPath, args, {
 			name: 'xterm-256color',
-			cols: 80,
-			rows: 30,
+			cols,
+			rows,
 			cwd: sessionInfo.worktreePath,
 			env
 		});
 
+		// Recording: explicitly chosen > stored for this branch (each session start gets its own file)
+		if (options.record !== undefined) {
+			await sessionManager.setRecordingForBranch(branchName, options.record);
+		}
+		const recorder = (options.record ?? await sessionManager.getRecordingForBranch(branchName))
+			? new SessionRecorder(sessionManager.getRecordingsDir(branchName), cols, rows, branchName)
+			: undefined;
+		sessionInfo.recording = !!recorder;
+
 		const session: TerminalSession = {
 			id: sessionId,
 			branchName,
 			ptyProcess,
 			waitForPrompt: true,
+			scrollback: new ScrollbackBuffer(),
+			recorder,
+			worktreePath: sessionInfo.worktreePath,
+			env,
+			shells: new Map(),
+			shellCount: 0,
+			sendShellData: () => {},
+			sendShellExit: () => {},
+			autoInitLog: new ScrollbackBuffer(),
+			sendAutoInitOutput: () => {},
+			resourceHistory: [],
+			focused: true, // Until the client reports otherwise
+			lastActivity: Date.now(),
+			sendData: onData,
+			sendExit: onExit,
+			sendAutoInitStatus: onAutoInitStatus,
 			onData: (data: string) => {
 				// Scan for ">" prompt when waiting for initial prompt
 				if (session.waitForPrompt && data.includes('>')) {
 					session.waitForPrompt = false;
+					releaseRunSlot(repoHash, branchName);
 					sendReadyStateWithGitStatus(repoHash, branchName);
 				}
+				// Keep output for replay when a client reattaches
+				session.scrollback.append(data);
+				session.recorder?.writeOutput(data);
+				session.lastActivity = Date.now();
 				// Forward data to client
-				onData(sessionId, data);
+				session.sendData(sessionId, data);
 			},
 			onExit: () => {
 				this.sessions.delete(sessionId);
+				session.recorder?.close();
+				// A stopped agent no longer counts towards the limit of running sessions
+				releaseRunSlot(repoHash, branchName);
 				// Only send exit message if this was NOT an intentional destroy
 				// Intentional destroys are tracked in destroyedSessions and mergingSessions
 				const isIntentionalDestroy = this.destroyedSessions.has(sessionId) || this.mergingSessions.has(sessionId);
 				if (!isIntentionalDestroy) {
-					onExit(sessionId);
+					session.sendExit(sessionId);
 				}
 				// Don't auto-destroy session - let frontend handle cleanup
 				// Session will be destroyed via:
@@ -415,17 +742,12 @@ export class PtyManager {
 		ptyProcess.onExit(() => session.onExit());
 
 		this.sessions.set(sessionId, session);
+		this.startResourceMonitor();
+		this.startUsageTracking();
 
 		// Execute auto-init script in parallel (only when creating new worktree, not when adopting existing)
 		if (!adoptExisting) {
-			const autoInitProcess = this.executeAutoInitScript(
-				sessionId,
-				sessionInfo.worktreePath,
-				(status, stderr) => onAutoInitStatus(sessionId, status, stderr)
-			);
-			if (autoInitProcess) {
-				session.autoInitProcess = autoInitProcess;
-			}
+			this.startAutoInit(session);
 		}
 
 		// Send initial newline to trigger Claude to start and display welcome message
@@ -434,11 +756,81 @@ export class PtyManager {
 		return sessionInfo;
 	}
 
+	/**
+	 * Attaches a client to a live PTY session, replacing the callbacks of the previous client.
+	 * Used when a new WebSocket takes over a session (reconnect after sleep, browser reload).
+	 * @returns The session info, buffered output and last autoinit status, or null if the session is not alive
+	 */
+	attachSession(
+		sessionId: string,
+		onData: (sessionId: string, data: string) => void,
+		onExit: (sessionId: string) => void,
+		onAutoInitStatus: (sessionId: string, status: AutoInitStatus, stderr?: string) => void
+	): AttachResult | null {
+		const session = this.sessions.get(sessionId);
+		const sessionManager = this.repositoryRegistry.getRepositoryBySessionId(sessionId);
+		const sessionInfo = sessionManager?.getAllSessions().get(sessionId);
+		if (!session || !sessionInfo || this.destroyedSessions.has(sessionId)) {
+			return null;
+		}
+
+		session.sendData = onData;
+		session.sendExit = onExit;
+		session.sendAutoInitStatus = onAutoInitStatus;
+
+		console.log(`[pty-manager.attachSession] Attached client to session ${sessionId} (branch=${session.branchName})`);
+		return {
+			sessionInfo,
+			scrollback: session.scrollback.getContents(),
+			autoInit: session.autoInit,
+			autoInitLog: session.autoInitLog.getContents(),
+			resourceHistory: session.resourceHistory,
+			tokenUsage: session.tokenUsage
+		};
+	}
+
+	/**
+	 * Attaches a client to the live PTY session of a branch (e.g. after a browser reload).
+	 * @returns The attach result, or null if no live session exists for this branch
+	 */
+	reattachSession(
+		repoPath: string,
+		branchName: string,
+		onData: (sessionId: string, data: string) => void,
+		onExit: (sessionId: string) => void,
+		onAutoInitStatus: (sessionId: string, status: AutoInitStatus, stderr?: string) => void
+	): AttachResult | null {
+		const sessionManager = this.repositoryRegistry.getRepository(repoPath);
+		const sessionId = sessionManager?.getSessionIdByBranch(branchName);
+		if (!sessionManager || !sessionId || this.repositoryRegistry.getRepositoryBySessionId(sessionId) !== sessionManager) {
+			return null;
+		}
+		return this.attachSession(sessionId, onData, onExit, onAutoInitStatus);
+	}
+
+	/**
+	 * Detaches the current client from a session. The PTY keeps running and its
+	 * output keeps being buffered until a client attaches again.
+	 */
+	detachSession(sessionId: string): void {
+		const session = this.sessions.get(sessionId);
+		if (session) {
+			session.sendData = () => {};
+			session.sendExit = () => {};
+			session.sendAutoInitStatus = () => {};
+			session.sendShellData = () => {};
+			session.sendShellExit = () => {};
+			session.sendAutoInitOutput = () => {};
+			console.log(`[pty-manager.detachSession] Detached client from session ${sessionId} (branch=${session.branchName})`);
+		}
+	}
+
 	write(sessionId: string, data: string): void {
 		const session = this.sessions.get(sessionId);
 		if (session) {
 			// Send data to terminal IMMEDIATELY to avoid any input delay
 			session.ptyProcess.write(data);
+			session.lastActivity = Date.now();
 
 			// Detect bare ESC key press (not escape sequences like \x1b[O)
 			// Bare ESC = exactly '\x1b', not followed by control sequence characters
@@ -450,6 +842,8 @@ export class PtyManager {
 					const repoHash = sessionManager.getRepoHash();
 					// Run git status update asynchronously to not block terminal input
 					setImmediate(() => {
+						// An interrupted prompt never reaches the Stop hook, so free its run slot here
+						releaseRunSlot(repoHash, session.branchName);
 						sendReadyStateWithGitStatus(repoHash, session.branchName);
 					});
 				}
@@ -461,6 +855,91 @@ export class PtyManager {
 		const session = this.sessions.get(sessionId);
 		if (session) {
 			session.ptyProcess.resize(cols, rows);
+			session.recorder?.writeResize(cols, rows);
+		}
+	}
+
+	/**
+	 * Sets the client callbacks for the auxiliary shells of a session
+	 * (set after create/attach, like the callbacks of the agent PTY).
+	 */
+	setShellCallbacks(
+		sessionId: string,
+		onShellData: (shellId: string, data: string) => void,
+		onShellExit: (shellId: string) => void
+	): void {
+		const session = this.sessions.get(sessionId);
+		if (session) {
+			session.sendShellData = onShellData;
+			session.sendShellExit = onShellExit;
+		}
+	}
+
+	/**
+	 * Starts a plain shell in the worktree of a session, with the same environment as the agent.
+	 * @returns The new shell, or null if the session doesn't exist
+	 */
+	createShell(sessionId: string, cols: number = 80, rows: number = 30): ShellSession | null {
+		const session = this.sessions.get(sessionId);
+		if (!session || this.destroyedSessions.has(sessionId)) {
+			return null;
+		}
+
+		const shellPath = process.platform === 'win32'
+			? (process.env.COMSPEC || 'cmd.exe')
+			: (process.env.SHELL || '/bin/bash');
+
+		const ptyProcess = pty.spawn(shellPath, [], {
+			name: 'xterm-256color',
+			cols,
+			rows,
+			cwd: session.worktreePath,
+			env: session.env
+		});
+
+		session.shellCount++;
+		const shell: ShellSession = {
+			id: uuidv4(),
+			title: `Shell ${session.shellCount}`,
+			ptyProcess,
+			scrollback: new ScrollbackBuffer()
+		};
+		session.shells.set(shell.id, shell);
+
+		ptyProcess.onData((data: string) => {
+			shell.scrollback.append(data);
+			session.sendShellData(shell.id, data);
+		});
+		ptyProcess.onExit(() => {
+			session.shells.delete(shell.id);
+			session.sendShellExit(shell.id);
+		});
+
+		console.log(`[pty-manager.createShell] Started ${shellPath} for session ${sessionId} (shell=${shell.id})`);
+		return shell;
+	}
+
+	/**
+	 * Gets the auxiliary shells of a session (e.g. to restore them on a newly attached client).
+	 */
+	getShells(sessionId: string): ShellSession[] {
+		const session = this.sessions.get(sessionId);
+		return session ? [...session.shells.values()] : [];
+	}
+
+	writeShell(sessionId: string, shellId: string, data: string): void {
+		this.sessions.get(sessionId)?.shells.get(shellId)?.ptyProcess.write(data);
+	}
+
+	resizeShell(sessionId: string, shellId: string, cols: number, rows: number): void {
+		this.sessions.get(sessionId)?.shells.get(shellId)?.ptyProcess.resize(cols, rows);
+	}
+
+	closeShell(sessionId: string, shellId: string): void {
+		const shell = this.sessions.get(sessionId)?.shells.get(shellId);
+		if (shell) {
+			// onExit removes the shell and notifies the client
+			shell.ptyProcess.kill();
 		}
 	}
 
@@ -475,6 +954,12 @@ export class PtyManager {
 
 		const session = this.sessions.get(sessionId);
 		if (session) {
+			// Auxiliary shells never outlive their session
+			for (const shell of session.shells.values()) {
+				console.log(`[pty-manager.destroy] Killing shell ${shell.id} of session ${sessionId}`);
+				shell.ptyProcess.kill();
+			}
+
 			// If skipWorktreeCleanup is true, mark this session as being merged
 			// The onExit handler will skip cleanup for merging sessions
 			if (skipWorktreeCleanup) {
@@ -499,13 +984,17 @@ export class PtyManager {
 						this.sessions.delete(sessionId);
 
 						// Small safety delay for Windows to finalize file handle cleanup
-						setTimeout(() => {
+						setTimeout(async () => {
 							console.log(`[pty-manager.destroy] Starting cleanup for session ${sessionId}`);
 							try {
 								const sessionManager = this.repositoryRegistry.getRepositoryBySessionId(sessionId);
 								if (sessionManager) {
+									const worktreePath = sessionManager.getAllSessions().get(sessionId)?.worktreePath;
+									if (worktreePath) {
+										this.usageTracker.forgetWorktree(worktreePath);
+									}
 									console.log(`[pty-manager.destroy] Calling sessionManager.destroySession for ${sessionId}, keepBranch=${keepBranch}`);
-									sessionManager.destroySession(sessionId, keepBranch);
+									await sessionManager.destroySession(sessionId, keepBranch);
 								} else {
 									console.warn(`[pty-manager.destroy] No sessionManager found for session ${sessionId}`);
 								}
@@ -534,7 +1023,7 @@ export class PtyManager {
 						autoInitExited = true;
 						tryCleanup();
 					});
-					session.autoInitProcess.kill();
+					this.killAutoInitProcess(session.autoInitProcess);
 				}
 			} else {
 				console.log(`[pty-manager.destroy] Skipping worktree cleanup for session ${sessionId} (preservation requested)`);
@@ -545,16 +1034,238 @@ export class PtyManager {
 			// Kill PTY process (cleanup will be triggered by onExit)
 			// Don't delete session here - it will be deleted in tryCleanup() after process exits
 			session.ptyProcess.kill();
+		} else if (this.hibernatedSessions.delete(sessionId)) {
+			// The PTY of a hibernated session is already gone - only the worktree may need cleanup
+			this.destroyedSessions.delete(sessionId);
+			if (!skipWorktreeCleanup) {
+				console.log(`[pty-manager.destroy] Cleaning up worktree of hibernated session ${sessionId}`);
+				const sessionManager = this.repositoryRegistry.getRepositoryBySessionId(sessionId);
+				Promise.resolve(sessionManager?.destroySession(sessionId, keepBranch))
+					.then(() => this.repositoryRegistry.unregisterSession(sessionId))
+					.catch(error => console.error(`[pty-manager.destroy] Failed to cleanup session ${sessionId}:`, error));
+			}
 		} else {
 			console.warn(`[pty-manager.destroy] Session ${sessionId} not found in sessions map`);
 		}
 	}
 
-	destroyAll(): void {
+	/**
+	 * Records whether the tab of a session is focused. Only unfocused sessions are hibernated.
+	 */
+	setFocused(sessionId: string, focused: boolean): void {
+		const session = this.sessions.get(sessionId);
+		if (session && session.focused !== focused) {
+			session.focused = focused;
+			session.lastActivity = Date.now();
+		}
+	}
+
+	/**
+	 * Sets after how many minutes an idle session is hibernated (0 = never).
+	 *
+	 * A session is idle when Claude is ready, its tab is not focused and the PTY had no
+	 * output or input. Hibernation stops the PTY but keeps the worktree; the client
+	 * resumes it with --continue when the tab is focused again.
+	 */
+	setIdleTimeout(minutes: number): void {
+		this.idleTimeoutMinutes = minutes;
+		if (this.idleTimer) {
+			clearInterval(this.idleTimer);
+			this.idleTimer = null;
+		}
+		if (minutes > 0) {
+			this.idleTimer = setInterval(() => this.hibernateIdleSessions(), 30000);
+			this.idleTimer.unref();
+		}
+	}
+
+	private forgetHibernatedSession(sessionManager: SessionManager, branchName: string): void {
+		for (const sessionId of this.hibernatedSessions) {
+			if (this.repositoryRegistry.getRepositoryBySessionId(sessionId) === sessionManager
+				&& sessionManager.getAllSessions().get(sessionId)?.branchName === branchName) {
+				sessionManager.forgetSession(sessionId);
+				this.repositoryRegistry.unregisterSession(sessionId);
+				this.hibernatedSessions.delete(sessionId);
+			}
+		}
+	}
+
+	private hibernateIdleSessions(): void {
+		const now = Date.now();
+		const timeout = this.idleTimeoutMinutes * 60000;
+
+		for (const session of [...this.sessions.values()]) {
+			if (session.focused || session.autoInitProcess || now - session.lastActivity < timeout || this.destroyedSessions.has(session.id)) {
+				continue;
+			}
+			if (session.shells.size > 0) {
+				continue; // Stopping the session would kill its shells (and whatever runs in them)
+			}
+			const sessionManager = this.repositoryRegistry.getRepositoryBySessionId(session.id);
+			if (!sessionManager) {
+				continue;
+			}
+			const repoHash = sessionManager.getRepoHash();
+			if (getBranchState(repoHash, session.branchName) !== 'ready') {
+				continue; // Claude is still working (e.g. long-running tool without output)
+			}
+
+			console.log(`[pty-manager.hibernateIdleSessions] Hibernating session ${session.id} (branch=${session.branchName}) after ${this.idleTimeoutMinutes} idle minute(s)`);
+			// Same as a restart: stop the PTY but keep the worktree
+			this.destroy(session.id, true);
+			this.hibernatedSessions.add(session.id);
+			sendHibernated(repoHash, session.branchName, this.idleTimeoutMinutes);
+		}
+	}
+
+	/**
+	 * Starts sampling the CPU and memory usage of all sessions (no-op if already running).
+	 * The timer stops by itself once no sessions are left.
+	 */
+	private startResourceMonitor(): void {
+		if (this.resourceTimer) {
+			return;
+		}
+		this.resourceTimer = setInterval(() => this.sampleResourceUsage(), RESOURCE_SAMPLE_INTERVAL);
+		this.resourceTimer.unref(); // Don't keep the server alive just for sampling
+	}
+
+	private stopResourceMonitor(): void {
+		if (this.resourceTimer) {
+			clearInterval(this.resourceTimer);
+			this.resourceTimer = null;
+		}
+	}
+
+	/**
+	 * Samples the process trees of every session (agent, autoinit script, shells)
+	 * and pushes the usage to the session's tab.
+	 */
+	private async sampleResourceUsage(): Promise<void> {
+		if (this.sessions.size === 0) {
+			this.stopResourceMonitor();
+			return;
+		}
+		// Skip a tick if the previous sample is still running (e.g. slow process listing on Windows)
+		if (this.isSampling) {
+			return;
+		}
+
+		this.isSampling = true;
+		try {
+			const snapshot = await this.processSampler.sample();
+
+			for (const session of this.sessions.values()) {
+				const agent = snapshot.getTreeUsage([session.ptyProcess.pid]);
+				if (!agent) {
+					continue; // Agent already exited
+				}
+				const autoInit = session.autoInitProcess?.pid ? snapshot.getTreeUsage([session.autoInitProcess.pid]) : null;
+				const shells = session.shells.size > 0
+					? snapshot.getTreeUsage([...session.shells.values()].map(shell => shell.ptyProcess.pid))
+					: null;
+
+				const sample: ResourceSample = {
+					timestamp: Date.now(),
+					total: sumUsage(agent, autoInit, shells),
+					agent,
+					autoInit,
+					shells
+				};
+				session.resourceHistory.push(sample);
+				if (session.resourceHistory.length > RESOURCE_HISTORY_LENGTH) {
+					session.resourceHistory.shift();
+				}
+
+				const sessionManager = this.repositoryRegistry.getRepositoryBySessionId(session.id);
+				if (sessionManager) {
+					sendResourceUsage(sessionManager.getRepoHash(), session.branchName, sample);
+				}
+			}
+		} catch (error) {
+			console.error('[pty-manager.sampleResourceUsage] Failed to sample resource usage:', error);
+		} finally {
+			this.isSampling = false;
+		}
+	}
+
+	/**
+	 * Starts reading the token usage of all sessions (no-op if already running).
+	 * The timer stops by itself once no sessions are left.
+	 */
+	private startUsageTracking(): void {
+		if (this.usageTimer) {
+			return;
+		}
+		this.usageTimer = setInterval(() => this.updateTokenUsage(), TOKEN_USAGE_INTERVAL);
+		this.usageTimer.unref();
+	}
+
+	private stopUsageTracking(): void {
+		if (this.usageTimer) {
+			clearInterval(this.usageTimer);
+			this.usageTimer = null;
+		}
+	}
+
+	/**
+	 * Reads the transcripts of every session's worktree, pushes changed token usage to the
+	 * session's tab and saves the daily usage to the history.
+	 */
+	private async updateTokenUsage(): Promise<void> {
+		if (this.sessions.size === 0) {
+			this.stopUsageTracking();
+			return;
+		}
+		if (this.isReadingUsage) {
+			return;
+		}
+
+		this.isReadingUsage = true;
+		try {
+			// Repository root -> branch -> daily usage of the sessions whose usage changed
+			const changedUsage = new Map<string, Map<string, Map<string, TokenUsage>>>();
+
+			for (const session of this.sessions.values()) {
+				const sessionManager = this.repositoryRegistry.getRepositoryBySessionId(session.id);
+				const sessionInfo = sessionManager?.getAllSessions().get(session.id);
+				if (!sessionManager || !sessionInfo) {
+					continue;
+				}
+
+				const usage = await this.usageTracker.getWorktreeUsage(sessionInfo.worktreePath);
+				const tokenUsage: SessionTokenUsage = { total: usage.total, today: usage.today };
+				if (JSON.stringify(tokenUsage) === JSON.stringify(session.tokenUsage)) {
+					continue;
+				}
+				session.tokenUsage = tokenUsage;
+				sendTokenUsage(sessionManager.getRepoHash(), session.branchName, tokenUsage);
+
+				const repoRoot = sessionManager.getRepoPath();
+				if (!changedUsage.has(repoRoot)) {
+					changedUsage.set(repoRoot, new Map());
+				}
+				changedUsage.get(repoRoot)!.set(session.branchName, usage.daily);
+			}
+
+			for (const [repoRoot, branches] of changedUsage) {
+				saveUsageHistory(repoRoot, branches);
+			}
+		} catch (error) {
+			console.error('[pty-manager.updateTokenUsage] Failed to read token usage:', error);
+		} finally {
+			this.isReadingUsage = false;
+		}
+	}
+
+	async destroyAll(): Promise<void> {
+		this.stopResourceMonitor();
+		this.stopUsageTracking();
+		this.setIdleTimeout(0);
 		for (const [sessionId] of this.sessions) {
 			this.destroy(sessionId);
 		}
 		// Clean up all repositories
-		this.repositoryRegistry.closeAllRepositories();
+		await this.repositoryRegistry.closeAllRepositories();
 	}
 }
@@ -11,6 +11,7 @@ import { resolve } from 'path';
 export class RepositoryRegistry {
 	private repositories = new Map<string, SessionManager>();
 	private sessionToRepo = new Map<string, string>();
+	private pendingRepositories = new Map<string, Promise<SessionManager>>();
 
 	/**
 	 * Normalizes a repository path for consistent lookups.
@@ -27,19 +28,43 @@ export class RepositoryRegistry {
 
 	/**
 	 * Creates or retrieves a SessionManager for the given repository path.
+	 * Concurrent calls for the same repository share one SessionManager.
 	 * @param repoPath - Absolute path to the repository
 	 * @returns The SessionManager instance for this repository
+	 * @throws Error if the path is not a git repository or has no valid base branch
 	 */
-	getOrCreateRepository(repoPath: string): SessionManager {
+	async getOrCreateRepository(repoPath: string): Promise<SessionManager> {
 		const normalizedPath = this.normalizePath(repoPath);
 
-		if (!this.repositories.has(normalizedPath)) {
+		const existing = this.repositories.get(normalizedPath);
+		if (existing) {
+			return existing;
+		}
+
+		let pending = this.pendingRepositories.get(normalizedPath);
+		if (!pending) {
 			console.log(`Creating SessionManager for repository: ${normalizedPath}`);
-			const sessionManager = new SessionManager(repoPath);
-			this.repositories.set(normalizedPath, sessionManager);
+			pending = SessionManager.open(repoPath)
+				.then(sessionManager => {
+					this.repositories.set(normalizedPath, sessionManager);
+					return sessionManager;
+				})
+				.finally(() => {
+					this.pendingRepositories.delete(normalizedPath);
+				});
+			this.pendingRepositories.set(normalizedPath, pending);
 		}
 
-		return this.repositories.get(normalizedPath)!;
+		return pending;
+	}
+
+	/**
+	 * Gets the SessionManager of an already opened repository.
+	 * @param repoPath - The repository path
+	 * @returns The SessionManager, or undefined if the repository is not open
+	 */
+	getRepository(repoPath: string): SessionManager | undefined {
+		return this.repositories.get(this.normalizePath(repoPath));
 	}
 
 	/**
@@ -127,19 +152,33 @@ export class RepositoryRegistry {
 		return undefined;
 	}
 
+	/**
+	 * Gets the SessionManager of an open repository by its hash.
+	 * @param repoHash - The repository hash (8-character MD5 hash)
+	 * @returns The SessionManager, or undefined if no open repository has this hash
+	 */
+	getRepositoryByRepoHash(repoHash: string): SessionManager | undefined {
+		for (const sessionManager of this.repositories.values()) {
+			if (sessionManager.getRepoHash() === repoHash) {
+				return sessionManager;
+			}
+		}
+		return undefined;
+	}
+
 	/**
 	 * Closes a repository and destroys all its sessions.
 	 * @param repoPath - The repository path to close
 	 */
-	closeRepository(repoPath: string): void {
+	async closeRepository(repoPath: string): Promise<void> {
 		const normalizedPath = this.normalizePath(repoPath);
 		const sessionManager = this.repositories.get(normalizedPath);
 
 		if (sessionManager) {
 			console.log(`Closing repository: ${normalizedPath}`);
-			// Destroy all sessions for this repository
-			sessionManager.destroyAllSessions();
 			this.repositories.delete(normalizedPath);
+			// Destroy all sessions for this repository
+			await sessionManager.destroyAllSessions();
 
 			// Clean up session mappings
 			for (const [sessionId, path] of this.sessionToRepo.entries()) {
@@ -161,12 +200,11 @@ export class RepositoryRegistry {
 	/**
 	 * Closes all repositories and cleans up all sessions.
 	 */
-	closeAllRepositories(): void {
+	async closeAllRepositories(): Promise<void> {
 		console.log('Closing all repositories');
-		for (const sessionManager of this.repositories.values()) {
-			sessionManager.destroyAllSessions();
-		}
+		const sessionManagers = Array.from(this.repositories.values());
 		this.repositories.clear();
 		this.sessionToRepo.clear();
+		await Promise.all(sessionManagers.map(sessionManager => sessionManager.destroyAllSessions()));
 	}
 }
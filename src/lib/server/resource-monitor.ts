@@ -0,0 +1,219 @@
+import { execFile } from 'child_process';
+import { promises as fsp } from 'fs';
+
+/**
+ * Resource usage of a process tree.
+ */
+export interface ProcessUsage {
+	cpu: number; // Percent of one CPU core (can exceed 100 on multi-core machines)
+	memory: number; // Resident memory in bytes
+	processes: number; // Number of processes in the tree
+}
+
+/**
+ * Resource usage of a terminal session, split by the process trees it owns.
+ */
+export interface ResourceSample {
+	timestamp: number;
+	total: ProcessUsage;
+	agent: ProcessUsage; // Agent PTY and everything it started (tools, dev servers, ...)
+	autoInit: ProcessUsage | null; // Running autoinit script (null when not running)
+	shells: ProcessUsage | null; // Auxiliary shells (null when none are open)
+}
+
+export const RESOURCE_SAMPLE_INTERVAL = 5000;
+export const RESOURCE_HISTORY_LENGTH = 120; // 10 minutes at the default interval
+
+interface ProcessInfo {
+	pid: number;
+	ppid: number;
+	cpuTime: number; // Cumulative CPU time in seconds
+	memory: number; // Resident memory in bytes
+}
+
+const EMPTY_USAGE: ProcessUsage = { cpu: 0, memory: 0, processes: 0 };
+
+function run(command: string, args: string[]): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFile(command, args, { encoding: 'utf8', maxBuffer: 16 * 1024 * 1024, windowsHide: true }, (error, stdout) => {
+			if (error) {
+				reject(error);
+			} else {
+				resolve(stdout);
+			}
+		});
+	});
+}
+
+let linuxUnits: Promise<{ clockTicks: number; pageSize: number }> | null = null;
+
+/**
+ * Gets the units of /proc/<pid>/stat (clock ticks per second and page size)
+ */
+function getLinuxUnits(): Promise<{ clockTicks: number; pageSize: number }> {
+	if (!linuxUnits) {
+		const getconf = (name: string, fallback: number) =>
+			run('getconf', [name]).then(out => parseInt(out, 10) || fallback, () => fallback);
+		linuxUnits = Promise.all([getconf('CLK_TCK', 100), getconf('PAGESIZE', 4096)])
+			.then(([clockTicks, pageSize]) => ({ clockTicks, pageSize }));
+	}
+	return linuxUnits;
+}
+
+/**
+ * Lists all processes on Linux by reading /proc (finer CPU time resolution than ps)
+ */
+async function listLinuxProcesses(): Promise<ProcessInfo[]> {
+	const { clockTicks, pageSize } = await getLinuxUnits();
+	const pids = (await fsp.readdir('/proc')).filter(name => /^\d+$/.test(name));
+
+	const processes = await Promise.all(pids.map(async (pid): Promise<ProcessInfo | null> => {
+		try {
+			const stat = await fsp.readFile(`/proc/${pid}/stat`, 'utf8');
+			// The command name may contain spaces and parentheses, so split after the last ')'
+			const fields = stat.substring(stat.lastIndexOf(')') + 2).split(' ');
+			return {
+				pid: Number(pid),
+				ppid: Number(fields[1]),
+				cpuTime: (Number(fields[11]) + Number(fields[12])) / clockTicks, // utime + stime
+				memory: Number(fields[21]) * pageSize // rss in pages
+			};
+		} catch {
+			return null; // Process exited while reading
+		}
+	}));
+	return processes.filter((p): p is ProcessInfo => p !== null);
+}
+
+/**
+ * Parses the cumulative CPU time of ps: [[dd-]hh:]mm:ss[.cc]
+ */
+function parsePsTime(value: string): number {
+	const [days, rest] = value.includes('-') ? value.split('-') : ['0', value];
+	return rest.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0) + Number(days) * 86400;
+}
+
+async function listPsProcesses(): Promise<ProcessInfo[]> {
+	const output = await run('ps', ['-A', '-o', 'pid=,ppid=,time=,rss=']);
+	return output.split('\n')
+		.map(line => line.trim().split(/\s+/))
+		.filter(fields => fields.length === 4)
+		.map(([pid, ppid, time, rss]) => ({
+			pid: Number(pid),
+			ppid: Number(ppid),
+			cpuTime: parsePsTime(time),
+			memory: Number(rss) * 1024
+		}));
+}
+
+async function listWindowsProcesses(): Promise<ProcessInfo[]> {
+	const script = 'Get-CimInstance Win32_Process | ForEach-Object { "$($_.ProcessId) $($_.ParentProcessId) $($_.KernelModeTime + $_.UserModeTime) $($_.WorkingSetSize)" }';
+	const output = await run('powershell.exe', ['-NoProfile', '-NonInteractive', '-Command', script]);
+	return output.split('\n')
+		.map(line => line.trim().split(' '))
+		.filter(fields => fields.length === 4)
+		.map(([pid, ppid, time, workingSet]) => ({
+			pid: Number(pid),
+			ppid: Number(ppid),
+			cpuTime: Number(time) / 1e7, // 100ns units
+			memory: Number(workingSet)
+		}));
+}
+
+function listProcesses(): Promise<ProcessInfo[]> {
+	switch (process.platform) {
+		case 'linux':
+			return listLinuxProcesses();
+		case 'win32':
+			return listWindowsProcesses();
+		default:
+			return listPsProcesses();
+	}
+}
+
+/**
+ * A snapshot of all processes, used to sum up the usage of process trees.
+ */
+export class ProcessSnapshot {
+	private children = new Map<number, number[]>();
+	private byPid = new Map<number, ProcessInfo>();
+
+	constructor(processes: ProcessInfo[], private cpuPercent: Map<number, number>) {
+		for (const info of processes) {
+			this.byPid.set(info.pid, info);
+			const siblings = this.children.get(info.ppid);
+			if (siblings) {
+				siblings.push(info.pid);
+			} else {
+				this.children.set(info.ppid, [info.pid]);
+			}
+		}
+	}
+
+	/**
+	 * Sums up the usage of the given processes and all their descendants.
+	 * @returns The usage, or null if none of the processes is alive
+	 */
+	getTreeUsage(rootPids: number[]): ProcessUsage | null {
+		const visited = new Set<number>();
+		const queue = rootPids.filter(pid => this.byPid.has(pid));
+		if (queue.length === 0) {
+			return null;
+		}
+
+		const usage = { ...EMPTY_USAGE };
+		while (queue.length > 0) {
+			const pid = queue.pop()!;
+			if (visited.has(pid)) {
+				continue;
+			}
+			visited.add(pid);
+			usage.cpu += this.cpuPercent.get(pid) || 0;
+			usage.memory += this.byPid.get(pid)!.memory;
+			usage.processes++;
+			queue.push(...(this.children.get(pid) || []));
+		}
+		usage.cpu = Math.round(usage.cpu * 10) / 10;
+		return usage;
+	}
+}
+
+/**
+ * Samples the process table and computes the CPU usage of every process since the previous sample.
+ */
+export class ProcessSampler {
+	private lastCpuTimes = new Map<number, number>();
+	private lastSampleTime = 0;
+
+	async sample(): Promise<ProcessSnapshot> {
+		const processes = await listProcesses();
+		const now = Date.now();
+		const elapsed = (now - this.lastSampleTime) / 1000;
+
+		const cpuPercent = new Map<number, number>();
+		const cpuTimes = new Map<number, number>();
+		for (const info of processes) {
+			cpuTimes.set(info.pid, info.cpuTime);
+			// The first sample has no baseline - report 0% instead of the lifetime average
+			if (this.lastSampleTime > 0 && elapsed > 0) {
+				const previous = this.lastCpuTimes.get(info.pid) ?? 0;
+				cpuPercent.set(info.pid, Math.max(0, (info.cpuTime - previous) / elapsed) * 100);
+			}
+		}
+
+		this.lastCpuTimes = cpuTimes;
+		this.lastSampleTime = now;
+		return new ProcessSnapshot(processes, cpuPercent);
+	}
+}
+
+/**
+ * Adds up the usage of several process trees.
+ */
+export function sumUsage(...usages: Array<ProcessUsage | null>): ProcessUsage {
+	return usages.reduce<ProcessUsage>((total, usage) => usage ? {
+		cpu: Math.round((total.cpu + usage.cpu) * 10) / 10,
+		memory: total.memory + usage.memory,
+		processes: total.processes + usage.processes
+	} : total, { ...EMPTY_USAGE });
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { acquireRunSlot, markRunning, releaseRunSlot, setMaxRunningSessions } from './run-queue';
+
+// The queue reports state changes to the tabs - there are no tabs in these tests
+vi.mock('./websocket-manager', () => ({ sendStateUpdate: vi.fn() }));
+
+const REPO = 'repo-hash';
+
+/**
+ * Tells whether a promise settled (without waiting for it).
+ */
+async function isSettled(promise: Promise<unknown>): Promise<boolean> {
+	let settled = false;
+	promise.then(() => settled = true);
+	await Promise.resolve();
+	return settled;
+}
+
+describe('run queue', () => {
+	beforeEach(() => {
+		// Start every test without running or queued sessions
+		for (const branch of ['a', 'b', 'c']) {
+			releaseRunSlot(REPO, branch);
+		}
+		setMaxRunningSessions(1);
+	});
+
+	it('queues prompts while the limit is reached', async () => {
+		expect(await acquireRunSlot(REPO, 'a', 0)).toBe(true);
+		const b = acquireRunSlot(REPO, 'b', 0);
+		expect(await isSettled(b)).toBe(false);
+
+		releaseRunSlot(REPO, 'a');
+		expect(await b).toBe(true);
+	});
+
+	it('does not exceed the limit when a session resumes after waiting for the user', async () => {
+		expect(await acquireRunSlot(REPO, 'a', 0)).toBe(true);
+		const b = acquireRunSlot(REPO, 'b', 0);
+
+		// a asks for permission (attention): its slot goes to b
+		releaseRunSlot(REPO, 'a');
+		expect(await b).toBe(true);
+
+		// The user approves and a uses its next tool - it must not take a second slot
+		markRunning(REPO, 'a', 0);
+		const c = acquireRunSlot(REPO, 'c', 0);
+		expect(await isSettled(c)).toBe(false);
+
+		// Once b is done, c gets the only slot (a is not counted as running)
+		releaseRunSlot(REPO, 'b');
+		expect(await c).toBe(true);
+	});
+
+	it('keeps counting a running session on its tool uses', async () => {
+		expect(await acquireRunSlot(REPO, 'a', 0)).toBe(true);
+		markRunning(REPO, 'a', 0);
+		const b = acquireRunSlot(REPO, 'b', 0);
+		expect(await isSettled(b)).toBe(false);
+
+		releaseRunSlot(REPO, 'a');
+		expect(await b).toBe(true);
+	});
+
+	it('applies the repository limit to resumed sessions', async () => {
+		setMaxRunningSessions(0);
+		expect(await acquireRunSlot(REPO, 'a', 1)).toBe(true);
+		const b = acquireRunSlot(REPO, 'b', 1);
+		releaseRunSlot(REPO, 'a');
+		expect(await b).toBe(true);
+
+		markRunning(REPO, 'a', 1);
+		const c = acquireRunSlot(REPO, 'c', 1);
+		expect(await isSettled(c)).toBe(false);
+		releaseRunSlot(REPO, 'b');
+		expect(await c).toBe(true);
+	});
+});
@@ -0,0 +1,168 @@
+import { sendStateUpdate } from './websocket-manager';
+
+/**
+ * Limits how many Claude sessions may be running (processing a prompt) at the same time.
+ *
+ * A prompt submitted while the limit is reached waits in a FIFO queue: the UserPromptSubmit
+ * hook blocks until a running session becomes ready, so Claude only starts working once a
+ * slot is free. Limits apply per server (--max-running) and per repository
+ * (git config claude-hydra.maxrunning); 0 means unlimited.
+ */
+
+interface QueuedPrompt {
+	repoHash: string;
+	branchName: string;
+	repoLimit: number;
+	resolve: (started: boolean) => void;
+}
+
+// Persist the queue across HMR reloads (blocked hook requests must not be lost)
+declare global {
+	var __runningBranches: Set<string> | null;
+	var __runQueue: QueuedPrompt[] | null;
+	var __maxRunningSessions: number | undefined;
+}
+
+// "repoHash:branchName" of all sessions that are currently running
+const runningBranches = globalThis.__runningBranches || new Set<string>();
+globalThis.__runningBranches = runningBranches;
+
+const runQueue = globalThis.__runQueue || [];
+globalThis.__runQueue = runQueue;
+
+function makeKey(repoHash: string, branchName: string): string {
+	return `${repoHash}:${branchName}`;
+}
+
+/**
+ * Sets the server-wide limit of running sessions (0 = unlimited)
+ */
+export function setMaxRunningSessions(limit: number): void {
+	globalThis.__maxRunningSessions = limit;
+	startQueuedPrompts();
+}
+
+function countRunning(repoHash?: string): number {
+	if (!repoHash) {
+		return runningBranches.size;
+	}
+	let count = 0;
+	for (const key of runningBranches) {
+		if (key.startsWith(`${repoHash}:`)) {
+			count++;
+		}
+	}
+	return count;
+}
+
+function hasFreeSlot(repoHash: string, repoLimit: number): boolean {
+	const serverLimit = globalThis.__maxRunningSessions || 0;
+	return (serverLimit === 0 || countRunning() < serverLimit)
+		&& (repoLimit === 0 || countRunning(repoHash) < repoLimit);
+}
+
+/**
+ * Tells every queued tab its current position in the queue
+ */
+function sendQueuePositions(): void {
+	runQueue.forEach((entry, index) => {
+		sendStateUpdate(entry.repoHash, entry.branchName, 'queued', index + 1);
+	});
+}
+
+/**
+ * Starts queued prompts (oldest first) as long as slots are free.
+ * A prompt blocked by its repository limit doesn't hold up prompts of other repositories.
+ */
+function startQueuedPrompts(): void {
+	let started = false;
+	for (let i = 0; i < runQueue.length;) {
+		const entry = runQueue[i];
+		if (hasFreeSlot(entry.repoHash, entry.repoLimit)) {
+			runQueue.splice(i, 1);
+			runningBranches.add(makeKey(entry.repoHash, entry.branchName));
+			sendStateUpdate(entry.repoHash, entry.branchName, 'running');
+			console.log(`[run-queue] Starting queued prompt of ${entry.branchName} (${runQueue.length} still queued)`);
+			entry.resolve(true);
+			started = true;
+		} else {
+			i++;
+		}
+	}
+	if (started) {
+		sendQueuePositions();
+	}
+}
+
+/**
+ * Waits until a session may start processing a new prompt, then marks it running.
+ * @param repoLimit - Limit of running sessions in the repository (0 = unlimited)
+ * @param signal - Aborts waiting (e.g. the hook was cancelled)
+ * @returns true when the session was started, false if it stopped waiting (aborted or released)
+ */
+export function acquireRunSlot(repoHash: string, branchName: string, repoLimit: number, signal?: AbortSignal): Promise<boolean> {
+	const key = makeKey(repoHash, branchName);
+	if (runningBranches.has(key) || hasFreeSlot(repoHash, repoLimit)) {
+		runningBranches.add(key);
+		sendStateUpdate(repoHash, branchName, 'running');
+		return Promise.resolve(true);
+	}
+
+	// A branch only has one pending prompt - a newer one replaces the old one
+	removeFromQueue(key);
+
+	return new Promise<boolean>((resolve) => {
+		const entry: QueuedPrompt = { repoHash, branchName, repoLimit, resolve };
+		runQueue.push(entry);
+		console.log(`[run-queue] Queued prompt of ${branchName} at position ${runQueue.length}`);
+		sendStateUpdate(repoHash, branchName, 'queued', runQueue.length);
+
+		signal?.addEventListener('abort', () => {
+			const index = runQueue.indexOf(entry);
+			if (index !== -1) {
+				console.log(`[run-queue] Queued prompt of ${branchName} was cancelled`);
+				runQueue.splice(index, 1);
+				resolve(false);
+				sendQueuePositions();
+			}
+		});
+	});
+}
+
+/**
+ * Marks a session as running without queueing (e.g. a tool use within a prompt that already started).
+ * A session that freed its slot while waiting for the user only takes a slot again if the limits
+ * allow it - its slot may have been given to a queued prompt in the meantime.
+ * @param repoLimit - Limit of running sessions in the repository (0 = unlimited)
+ */
+export function markRunning(repoHash: string, branchName: string, repoLimit: number): void {
+	const key = makeKey(repoHash, branchName);
+	if (runningBranches.has(key) || hasFreeSlot(repoHash, repoLimit)) {
+		runningBranches.add(key);
+	}
+}
+
+function removeFromQueue(key: string): boolean {
+	const index = runQueue.findIndex(entry => makeKey(entry.repoHash, entry.branchName) === key);
+	if (index === -1) {
+		return false;
+	}
+	const [entry] = runQueue.splice(index, 1);
+	entry.resolve(false);
+	return true;
+}
+
+/**
+ * Frees the slot of a session (it became ready, or was closed/stopped) and starts queued prompts.
+ */
+export function releaseRunSlot(repoHash: string, branchName: string): void {
+	const key = makeKey(repoHash, branchName);
+	const wasRunning = runningBranches.delete(key);
+	const wasQueued = removeFromQueue(key);
+	if (wasQueued) {
+		sendQueuePositions();
+	}
+	if (wasRunning) {
+		startQueuedPrompts();
+	}
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { ScrollbackBuffer, MAX_LINE_LENGTH } from './scrollback-buffer';
+
+describe('ScrollbackBuffer', () => {
+	it('keeps everything below the limit', () => {
+		const buffer = new ScrollbackBuffer(100);
+		buffer.append('one\r\n');
+		buffer.append('two\r\n');
+		expect(buffer.getContents()).toBe('one\r\ntwo\r\n');
+	});
+
+	it('evicts the oldest output up to the next line break', () => {
+		const buffer = new ScrollbackBuffer(20);
+		buffer.append('line one\r\n');
+		buffer.append('\x1b[31mred\x1b[0m line\r\n');
+		buffer.append('third\r\n');
+		expect(buffer.getContents()).toBe('third\r\n');
+	});
+
+	it('finds the line break in a later chunk', () => {
+		const buffer = new ScrollbackBuffer(10);
+		buffer.append('abc');
+		buffer.append('\x1b[1mdef');
+		buffer.append('ghi\nkeep');
+		expect(buffer.getContents()).toBe('keep');
+	});
+
+	it('does not start inside a CSI sequence', () => {
+		const buffer = new ScrollbackBuffer(10);
+		buffer.append('abcdefghij');
+		// Without a line break the cut (at 4) falls into the color sequence
+		buffer.append('\x1b[38;5;200mxyz');
+		expect(buffer.getContents()).toBe('xyz');
+	});
+
+	it('does not start inside an OSC sequence', () => {
+		const buffer = new ScrollbackBuffer(10);
+		buffer.append('abcdefghij');
+		buffer.append('\x1b]0;window title\x07xyz');
+		expect(buffer.getContents()).toBe('xyz');
+
+		buffer.clear();
+		buffer.append('abcdefghij');
+		buffer.append('\x1b]8;;https://example.com\x1b\\link');
+		expect(buffer.getContents()).toBe('link');
+	});
+
+	it('does not split a surrogate pair', () => {
+		const buffer = new ScrollbackBuffer(5);
+		buffer.append('ab😀cdef');
+		expect(buffer.getContents()).toBe('cdef');
+	});
+
+	it('cuts lines longer than MAX_LINE_LENGTH within the line', () => {
+		const limit = MAX_LINE_LENGTH * 2;
+		const buffer = new ScrollbackBuffer(limit);
+		buffer.append(`${'x'.repeat(MAX_LINE_LENGTH * 3)}\n`);
+		// The next line break is too far away: keep exactly the limit instead of dropping the whole line
+		expect(buffer.getContents()).toBe(`${'x'.repeat(limit - 1)}\n`);
+	});
+
+	it('keeps the tail of a chunk larger than the limit', () => {
+		const buffer = new ScrollbackBuffer(10);
+		buffer.append('old\n');
+		buffer.append('\x1b[32m0123456789abcdefghij');
+		expect(buffer.getContents()).toBe('abcdefghij');
+	});
+});
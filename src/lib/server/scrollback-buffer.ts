@@ -0,0 +1,139 @@
+/**
+ * Default number of characters of terminal output kept per session.
+ */
+export const DEFAULT_SCROLLBACK_LIMIT = 512 * 1024;
+
+/**
+ * How far past the limit eviction looks for a line break before cutting within the line.
+ */
+export const MAX_LINE_LENGTH = 4096;
+
+/**
+ * Moves a cut position in terminal output forward so it doesn't split an escape sequence
+ * (CSI "ESC [ ... final byte", OSC "ESC ] ... BEL/ST", or a two-character escape) or a surrogate pair.
+ * @returns The first index at or after `index` where the output can start
+ */
+function skipPartialSequence(text: string, index: number): number {
+	const escape = index > 0 ? text.lastIndexOf('\x1b', index - 1) : -1;
+	if (escape !== -1) {
+		let end: number;
+		if (text[escape + 1] === '[') {
+			end = escape + 2;
+			while (end < text.length && text.charCodeAt(end) >= 0x20 && text.charCodeAt(end) <= 0x3f) {
+				end++;
+			}
+			end++; // Final byte
+		} else if (text[escape + 1] === ']') {
+			const bell = text.indexOf('\x07', escape);
+			const terminator = text.indexOf('\x1b\\', escape + 1);
+			end = Math.min(bell === -1 ? text.length : bell + 1, terminator === -1 ? text.length : terminator + 2);
+		} else {
+			end = escape + 2;
+		}
+		if (end > index) {
+			return Math.min(end, text.length);
+		}
+	}
+
+	// Don't start with the second half of a surrogate pair
+	const code = text.charCodeAt(index);
+	return code >= 0xdc00 && code <= 0xdfff ? index + 1 : index;
+}
+
+/**
+ * ScrollbackBuffer is a bounded ring buffer of PTY output chunks.
+ *
+ * It keeps the most recent output of a terminal session so that a client
+ * which reattaches (e.g. after a browser reload) can replay what the PTY
+ * printed before the client connected. When the limit is exceeded, the
+ * oldest output is dropped first, up to a line break.
+ */
+export class ScrollbackBuffer {
+	private chunks: string[] = [];
+	private length = 0;
+	private limit: number;
+
+	constructor(limit: number = DEFAULT_SCROLLBACK_LIMIT) {
+		this.limit = limit;
+	}
+
+	/**
+	 * Appends a chunk of output and evicts the oldest output if the limit is exceeded.
+	 * @param data - Output chunk as received from the PTY
+	 */
+	append(data: string): void {
+		if (!data) return;
+
+		this.chunks.push(data);
+		this.length += data.length;
+
+		if (this.length > this.limit) {
+			this.evict(this.findSafeCut(this.length - this.limit));
+		}
+	}
+
+	/**
+	 * Drops the given number of characters from the start of the buffer.
+	 */
+	private evict(count: number): void {
+		while (count > 0 && this.chunks.length > 0) {
+			const oldest = this.chunks[0];
+			if (oldest.length <= count) {
+				this.chunks.shift();
+				this.length -= oldest.length;
+				count -= oldest.length;
+			} else {
+				this.chunks[0] = oldest.slice(count);
+				this.length -= count;
+				count = 0;
+			}
+		}
+	}
+
+	/**
+	 * Finds where to cut off the oldest output, at least `minimum` characters in: after the next
+	 * line break, so a replay never starts in the middle of an escape sequence. Very long lines
+	 * are cut at `minimum` instead, moved past an escape sequence the cut would split.
+	 */
+	private findSafeCut(minimum: number): number {
+		let offset = 0;
+		for (const chunk of this.chunks) {
+			if (offset + chunk.length > minimum) {
+				const start = Math.max(0, minimum - offset);
+				const lineBreak = chunk.indexOf('\n', start);
+				if (lineBreak !== -1 && offset + lineBreak < minimum + MAX_LINE_LENGTH) {
+					return offset + lineBreak + 1;
+				}
+				if (offset + chunk.length >= minimum + MAX_LINE_LENGTH) {
+					break;
+				}
+			}
+			offset += chunk.length;
+		}
+
+		// No line break nearby: cut within the chunk that contains the minimal cut
+		offset = 0;
+		for (const chunk of this.chunks) {
+			if (offset + chunk.length > minimum) {
+				return offset + skipPartialSequence(chunk, minimum - offset);
+			}
+			offset += chunk.length;
+		}
+		return minimum;
+	}
+
+	/**
+	 * Gets the buffered output as a single string (oldest first).
+	 */
+	getContents(): string {
+		return this.chunks.join('');
+	}
+
+	/**
+	 * Discards all buffered output.
+	 */
+	clear(): void {
+		this.chunks = [];
+		this.length = 0;
+	}
+}
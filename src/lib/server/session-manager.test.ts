@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runGit, isValidBranchName } from './git-runner';
+import { SessionManager } from './session-manager';
+
+/**
+ * Regression suite for hostile branch and file names: they must either be rejected
+ * or reach git verbatim - never be interpreted by a shell or parsed as git options.
+ */
+
+// Names that git would expand, parse as option or that a shell would interpret
+const REJECTED_BRANCH_NAMES = ['-rf', '--force', '@{-1}', '$(touch pwned)', 'x;rm -rf y', 'a b', 'a..b', 'a~1', 'HEAD^', 'x:y', ''];
+
+// Valid branch names with characters that are special to a shell
+const LITERAL_BRANCH_NAMES = ['a"b', "it's", '$(touch-pwned)', '`touch-pwned`', 'x;rm-rf-y', 'a|b&c', 'feature/$HOME', 'semi;colon/nested'];
+
+// File names that a shell would split or interpret, or that git quotes in its plain output
+const HOSTILE_FILE_NAMES = ['with space.txt', 'it\'s "quoted".txt', '$(touch pwned).txt', '-rf', ' leading space.txt', 'größe.txt'];
+
+let tempDir: string;
+let repoRoot: string;
+let sessionManager: SessionManager;
+const originalHome = { HOME: process.env.HOME, USERPROFILE: process.env.USERPROFILE };
+
+function git(args: string[], cwd = repoRoot): string {
+	return execFileSync('git', args, { cwd, encoding: 'utf8' });
+}
+
+/**
+ * Fails if any command ran through a shell (the payloads create a file named "pwned" or delete "y").
+ */
+function expectNoShellExecution() {
+	for (const dir of [tempDir, repoRoot, process.cwd()]) {
+		expect(existsSync(join(dir, 'pwned'))).toBe(false);
+	}
+	expect(existsSync(join(repoRoot, 'y'))).toBe(true);
+}
+
+beforeAll(async () => {
+	process.env.GIT_AUTHOR_NAME = process.env.GIT_COMMITTER_NAME = 'Test';
+	process.env.GIT_AUTHOR_EMAIL = process.env.GIT_COMMITTER_EMAIL = 'test@example.com';
+
+	tempDir = mkdtempSync(join(tmpdir(), 'claude-hydra-test-'));
+	repoRoot = join(tempDir, 'repo');
+	// The session manager keeps its data in ~/.claude-hydra - keep it out of the real home directory
+	process.env.HOME = process.env.USERPROFILE = join(tempDir, 'home');
+	git(['init', '--quiet', '--initial-branch=main', repoRoot], tempDir);
+	for (const name of HOSTILE_FILE_NAMES) {
+		writeFileSync(join(repoRoot, name), `original ${name}\n`);
+	}
+	writeFileSync(join(repoRoot, 'y'), 'must survive\n');
+	git(['add', '--all']);
+	git(['commit', '--quiet', '-m', 'init']);
+	git(['config', 'claude-hydra.worktreeroot', join(tempDir, 'worktrees')]);
+
+	sessionManager = await SessionManager.open(repoRoot);
+});
+
+afterAll(() => {
+	for (const [name, value] of Object.entries(originalHome)) {
+		if (value === undefined) {
+			delete process.env[name];
+		} else {
+			process.env[name] = value;
+		}
+	}
+	rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('isValidBranchName', () => {
+	it.each(REJECTED_BRANCH_NAMES)('rejects %j', async (name) => {
+		expect(await isValidBranchName(name, repoRoot)).toBe(false);
+	});
+
+	it.each(LITERAL_BRANCH_NAMES)('accepts %j as it is', async (name) => {
+		expect(await isValidBranchName(name, repoRoot)).toBe(true);
+	});
+});
+
+describe('SessionManager.createSession', () => {
+	it.each(REJECTED_BRANCH_NAMES.filter(name => name))('refuses branch %j', async (name) => {
+		await expect(sessionManager.createSession(`rejected-${name}`, name)).rejects.toThrow(/Invalid branch name/);
+		expect(git(['for-each-ref', '--format=%(refname)', 'refs/heads/']).trim()).toBe('refs/heads/main');
+		expectNoShellExecution();
+	});
+
+	it.each(LITERAL_BRANCH_NAMES)('creates branch %j verbatim', async (name) => {
+		const session = await sessionManager.createSession(`literal-${name}`, name);
+		expect(session.branchName).toBe(name);
+		expect(git(['for-each-ref', '--format=%(refname)', `refs/heads/${name}`]).trim()).toBe(`refs/heads/${name}`);
+		expect(git(['branch', '--show-current'], session.worktreePath).trim()).toBe(name);
+		expectNoShellExecution();
+	});
+
+	it('refuses a hostile base branch', async () => {
+		await expect(sessionManager.createSession('hostile-base', 'ok-branch', false, '$(touch pwned)')).rejects.toThrow(/Invalid base branch name/);
+		expectNoShellExecution();
+	});
+});
+
+describe('file paths', () => {
+	let sessionId: string;
+	let worktreePath: string;
+
+	beforeAll(async () => {
+		sessionId = 'files';
+		worktreePath = (await sessionManager.createSession(sessionId, 'file-names')).worktreePath;
+		for (const name of HOSTILE_FILE_NAMES) {
+			writeFileSync(join(worktreePath, name), `committed ${name}\n`);
+		}
+		git(['commit', '--quiet', '--all', '-m', 'change files'], worktreePath);
+		for (const name of HOSTILE_FILE_NAMES) {
+			writeFileSync(join(worktreePath, name), `changed ${name}\n`);
+		}
+	});
+
+	it.each(HOSTILE_FILE_NAMES)('runGit passes %j unchanged', async (name) => {
+		const output = await runGit(['ls-files', '-z', '--', name], { cwd: worktreePath });
+		expect(output).toBe(`${name}\0`);
+	});
+
+	it('lists the files under their real names', async () => {
+		const files = await sessionManager.getFileList(sessionId, null);
+		for (const name of HOSTILE_FILE_NAMES) {
+			expect(files).toContainEqual({ path: name, status: 'modified' });
+		}
+
+		const commit = git(['rev-parse', '--short', 'HEAD'], worktreePath).trim();
+		const commitFiles = await sessionManager.getFileList(sessionId, commit);
+		for (const name of HOSTILE_FILE_NAMES) {
+			expect(commitFiles).toContainEqual({ path: name, status: 'modified' });
+		}
+	});
+
+	it.each(HOSTILE_FILE_NAMES)('diffs %j', async (name) => {
+		const diff = await sessionManager.getFileDiff(sessionId, name, null);
+		expect(diff).toEqual({ original: `committed ${name}\n`, modified: `changed ${name}\n` });
+	});
+
+	it.each(HOSTILE_FILE_NAMES)('discards changes of %j', async (name) => {
+		await sessionManager.discardFile(sessionId, name);
+		expect(readFileSync(join(worktreePath, name), 'utf8')).toBe(`committed ${name}\n`);
+		expectNoShellExecution();
+	});
+});
+
+describe('conflicts', () => {
+	it('lists conflicting files under their real names', async () => {
+		const worktreePath = (await sessionManager.createSession('conflicts', 'conflict-names')).worktreePath;
+		for (const name of HOSTILE_FILE_NAMES) {
+			writeFileSync(join(worktreePath, name), `branch ${name}\n`);
+			writeFileSync(join(repoRoot, name), `base ${name}\n`);
+		}
+		git(['commit', '--quiet', '--all', '-m', 'change on branch'], worktreePath);
+		git(['commit', '--quiet', '--all', '-m', 'change on base']);
+
+		const result = await sessionManager.rebaseOntoBase('conflicts');
+		expect(result.success).toBe(false);
+		expect([...result.conflicts!].sort()).toEqual([...HOSTILE_FILE_NAMES].sort());
+		expect(result.error).toContain('größe.txt');
+		expectNoShellExecution();
+	});
+});
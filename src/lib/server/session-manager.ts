@@ -1,20 +1,55 @@
-import { execSync } from 'child_process';
-import { existsSync, mkdirSync, rmSync, readFileSync, copyFileSync, readdirSync, statSync, writeFileSync } from 'fs';
-import { join, basename, dirname, relative, resolve } from 'path';
+import { existsSync, mkdirSync, rmSync, rmdirSync, readFileSync, copyFileSync, readdirSync, statSync, writeFileSync, promises as fsp, constants as fsConstants } from 'fs';
+import { join, basename, dirname, relative, resolve, sep } from 'path';
 import { homedir } from 'os';
 import { createHash } from 'crypto';
-import { glob } from 'glob';
+import { glob, hasMagic } from 'glob';
+import type { PermissionMode } from './permission-mode';
+import { runGit, tryGit, isValidBranchName, isCommitHash, GIT_NETWORK_TIMEOUT } from './git-runner';
+import { splitRemoteBranch, type RemoteBranch } from '../utils/branchNames';
+import { type MergeStrategy, DEFAULT_MERGE_STRATEGY, isMergeStrategy, buildSquashMessage } from '../utils/mergeStrategies';
+
+// Persist the server-wide worktree root across HMR reloads
+declare global {
+	var __defaultWorktreeRoot: string | null | undefined;
+}
+
+/**
+ * Sets the server-wide worktree root (--worktree-root), used by repositories without
+ * git config claude-hydra.worktreeroot. null = ~/.claude-hydra/<repo-name-hash>
+ */
+export function setDefaultWorktreeRoot(root: string | null): void {
+	globalThis.__defaultWorktreeRoot = root;
+}
+
+// Environment of git commands talking to remotes: fail instead of asking for credentials
+const NON_INTERACTIVE_NETWORK_ENV: NodeJS.ProcessEnv = {
+	GIT_ASKPASS: 'echo', // Disable GUI password prompts
+	SSH_ASKPASS: 'echo', // Disable SSH GUI prompts
+	DISPLAY: undefined, // Disable X11 prompts on Unix
+	GIT_SSH_COMMAND: 'ssh -o BatchMode=yes -o StrictHostKeyChecking=no' // Disable all SSH interactive prompts
+};
 
 /**
- * Synchronous sleep function that works cross-platform without shell commands.
- * @param seconds - Number of seconds to sleep
+ * Turns the error of a git command talking to a remote into a message for the user.
  */
-function sleepSync(seconds: number): void {
-	const start = Date.now();
-	const end = start + (seconds * 1000);
-	while (Date.now() < end) {
-		// Busy-wait
+function describeNetworkError(errorMessage: string): string {
+	// Check if it's an authentication error
+	if (
+		errorMessage.includes('terminal prompts disabled') ||
+		errorMessage.includes('Authentication failed') ||
+		errorMessage.includes('Permission denied') ||
+		errorMessage.includes('could not read Username')
+	) {
+		return 'Authentication required. Please ensure git credentials are configured (SSH key or credential helper).';
 	}
+	return errorMessage;
+}
+
+/**
+ * Splits the NUL-terminated output of a git command run with -z.
+ */
+function splitNul(output: string): string[] {
+	return output.split('\0').filter(entry => entry !== '');
 }
 
 /**
@@ -22,7 +57,7 @@ function sleepSync(seconds: number): void {
  *
  * Each terminal tab gets its own:
  * - Git branch (named by the user)
- * - Git worktree (in ~/.claude-hydra/<repo-name-hash>/<branch-name>)
+ * - Git worktree (in <worktree-root>/<branch-name>, by default ~/.claude-hydra/<repo-name-hash>/<branch-name>)
  * - Isolated working directory for Claude to operate in
  *
  * This ensures multiple Claude sessions can work independently without conflicts.
@@ -34,29 +69,50 @@ export class SessionManager {
 	private repoHash: string;
 	private sessions: Map<string, SessionInfo>;
 
-	constructor(repoPath: string) {
-		// Persist sessions Map across HMR reloads
-		if (globalThis.__sessionManagerSessions) {
-			this.sessions = globalThis.__sessionManagerSessions;
-			console.log(`Reusing existing sessions Map from HMR (${this.sessions.size} active sessions)`);
-		} else {
-			this.sessions = new Map<string, SessionInfo>();
-			globalThis.__sessionManagerSessions = this.sessions;
-		}
-
+	/**
+	 * Opens a repository: verifies it, makes sure it has a valid base branch and creates its SessionManager.
+	 * @param repoPath - Path inside the repository
+	 */
+	static async open(repoPath: string): Promise<SessionManager> {
 		// Verify we're in a git repository
-		if (!this.isGitRepository(repoPath)) {
+		if (!await tryGit(['rev-parse', '--git-dir'], { cwd: repoPath })) {
 			throw new Error(`Not a git repository: ${repoPath}`);
 		}
 
 		// Get repository root
-		this.repoRoot = this.getRepoRoot(repoPath);
+		let repoRoot: string;
+		try {
+			repoRoot = (await runGit(['rev-parse', '--show-toplevel'], { cwd: repoPath })).trim();
+		} catch (error) {
+			throw new Error('Failed to get repository root');
+		}
 
 		// Ensure repository has at least one commit and a valid base branch
-		this.ensureValidBaseBranch();
+		await SessionManager.ensureValidBaseBranch(repoRoot);
 
 		// Get base branch (the branch we started from)
-		this.baseBranch = this.getBaseBranch();
+		let baseBranch: string;
+		try {
+			baseBranch = (await runGit(['branch', '--show-current'], { cwd: repoRoot })).trim();
+		} catch (error) {
+			throw new Error('Failed to get current branch');
+		}
+
+		return new SessionManager(repoRoot, baseBranch);
+	}
+
+	private constructor(repoRoot: string, baseBranch: string) {
+		// Persist sessions Map across HMR reloads
+		if (globalThis.__sessionManagerSessions) {
+			this.sessions = globalThis.__sessionManagerSessions;
+			console.log(`Reusing existing sessions Map from HMR (${this.sessions.size} active sessions)`);
+		} else {
+			this.sessions = new Map<string, SessionInfo>();
+			globalThis.__sessionManagerSessions = this.sessions;
+		}
+
+		this.repoRoot = repoRoot;
+		this.baseBranch = baseBranch;
 
 		// Set up base directory for worktrees in user home directory
 		// Format: ~/.claude-hydra/<repo-name>-<hash>
@@ -98,6 +154,13 @@ export class SessionManager {
 		return this.repoHash;
 	}
 
+	/**
+	 * Gets the root directory of the main repository (not a worktree).
+	 */
+	getRepoPath(): string {
+		return this.repoRoot;
+	}
+
 	/**
 	 * Creates a new isolated session with its own git worktree and branch.
 	 * @param sessionId - Unique identifier for this session
@@ -108,7 +171,12 @@ export class SessionManager {
 	 */
 	async createSession(sessionId: string, branchName: string, adoptExisting: boolean = false, baseBranchName?: string): Promise<SessionInfo> {
 		console.log(`[SessionManager.createSession] Called with: sessionId=${sessionId}, branchName=${branchName}, adoptExisting=${adoptExisting}, baseBranchName=${baseBranchName}`);
-		const worktreePath = join(this.baseDir, branchName);
+		if (!await isValidBranchName(branchName, this.repoRoot)) {
+			throw new Error(`Invalid branch name: ${branchName}`);
+		}
+		if (baseBranchName && !await isValidBranchName(baseBranchName, this.repoRoot)) {
+			throw new Error(`Invalid base branch name: ${baseBranchName}`);
+		}
 
 		// Use provided baseBranchName or default to repository's base branch
 		const derivedFrom = baseBranchName || this.baseBranch;
@@ -117,23 +185,25 @@ export class SessionManager {
 		// If adopting existing worktree
 		if (adoptExisting) {
 			// Verify branch exists
-			if (!this.branchExists(branchName)) {
+			if (!await this.branchExists(branchName)) {
 				throw new Error(`Cannot adopt: Branch '${branchName}' does not exist`);
 			}
 
-			// Verify worktree path exists
-			if (!existsSync(worktreePath)) {
+			// Verify worktree exists (it may be in any of the worktree roots)
+			const existingWorktree = (await this.discoverExistingWorktrees()).find(worktree => worktree.branchName === branchName);
+			if (!existingWorktree || !existsSync(existingWorktree.worktreePath)) {
 				throw new Error(`Cannot adopt: Worktree directory '${branchName}' does not exist`);
 			}
+			const worktreePath = existingWorktree.worktreePath;
 
 			// Try to read base branch from git config first
-			let actualBaseBranch = this.readBaseBranchConfig(branchName, worktreePath);
+			let actualBaseBranch = await this.readBaseBranchConfig(branchName, worktreePath);
 
 			// If not in git config, use provided baseBranchName or detect default
 			if (!actualBaseBranch) {
-				actualBaseBranch = baseBranchName || this.detectDefaultBaseBranch();
+				actualBaseBranch = baseBranchName || await this.detectDefaultBaseBranch();
 				// Store it for future use
-				this.writeBaseBranchConfig(branchName, actualBaseBranch, worktreePath);
+				await this.writeBaseBranchConfig(branchName, actualBaseBranch, worktreePath);
 			}
 
 			const sessionInfo: SessionInfo = {
@@ -147,7 +217,7 @@ export class SessionManager {
 			this.sessions.set(sessionId, sessionInfo);
 
 			// Initialize base branch commit ID
-			sessionInfo.baseBranchCommitId = this.getBaseBranchCommitId(sessionId);
+			sessionInfo.baseBranchCommitId = await this.getBaseBranchCommitId(sessionId);
 
 			console.log(`Adopted existing session ${sessionId}: branch=${branchName}, path=${worktreePath}, baseBranch=${actualBaseBranch}`);
 
@@ -155,44 +225,37 @@ export class SessionManager {
 		}
 
 		// Normal flow: create worktree (with or without creating new branch)
+		// A remote ref (e.g. "origin/feature/xyz") is checked out as local tracking branch of the
+		// same name ("feature/xyz"); the worktree directory is named after the local branch
+		const remoteBranch = await this.resolveRemoteBranch(branchName);
+		const worktreePath = this.getWorktreePath(await this.getWorktreeRoot(), remoteBranch ? remoteBranch.branch : branchName);
+
 		// Check if worktree path already exists
 		if (existsSync(worktreePath)) {
-			throw new Error(`Worktree directory '${branchName}' already exists`);
+			throw new Error(`Worktree directory '${worktreePath}' already exists`);
 		}
 
 		try {
 			let actualBranchName = branchName;
 			let actualBaseBranch = derivedFrom;
-			let isRemoteBranch = branchName.includes('/');
-			let branchAlreadyExists = this.branchExists(branchName);
+			let branchAlreadyExists = await this.branchExists(branchName);
 
 			// Case 1: Remote branch (e.g., "origin/feature-xyz")
-			if (isRemoteBranch) {
-				// Extract local branch name by removing remote prefix
-				const parts = branchName.split('/');
-				const remoteName = parts[0]; // e.g., "origin"
-				const localBranchName = parts.slice(1).join('/'); // e.g., "feature-xyz"
+			if (remoteBranch) {
+				const localBranchName = remoteBranch.branch; // e.g., "feature-xyz"
 
 				actualBranchName = localBranchName;
 
 				// Check if local tracking branch already exists
-				if (!this.branchExists(localBranchName)) {
+				if (!await this.branchExists(localBranchName)) {
 					// Create local tracking branch from remote
 					console.log(`Creating local tracking branch '${localBranchName}' from '${branchName}'`);
-					execSync(`git branch --track "${localBranchName}" "${branchName}"`, {
-						cwd: this.repoRoot,
-						encoding: 'utf8',
-						stdio: ['pipe', 'pipe', 'ignore']
-					});
+					await runGit(['branch', '--track', localBranchName, branchName], { cwd: this.repoRoot });
 				}
 
 				// Create worktree on the local branch
 				console.log(`Creating worktree for local branch '${localBranchName}'`);
-				execSync(`git worktree add "${worktreePath}" "${localBranchName}"`, {
-					cwd: this.repoRoot,
-					encoding: 'utf8',
-					stdio: ['pipe', 'pipe', 'ignore']
-				});
+				await runGit(['worktree', 'add', worktreePath, localBranchName], { cwd: this.repoRoot });
 
 				// Use the remote branch as the base branch (or user-specified base)
 				actualBaseBranch = baseBranchName || branchName;
@@ -202,14 +265,10 @@ export class SessionManager {
 				console.log(`Creating worktree for existing local branch '${branchName}'`);
 
 				// Create worktree without creating a new branch
-				execSync(`git worktree add "${worktreePath}" "${branchName}"`, {
-					cwd: this.repoRoot,
-					encoding: 'utf8',
-					stdio: ['pipe', 'pipe', 'ignore']
-				});
+				await runGit(['worktree', 'add', worktreePath, branchName], { cwd: this.repoRoot });
 
 				// Priority: user-provided baseBranchName > stored git config > repo default
-				const storedBaseBranch = this.getBaseBranchForBranch(branchName);
+				const storedBaseBranch = await this.getBaseBranchForBranch(branchName);
 				console.log(`[SessionManager.createSession] Case 2 - Existing branch: storedBaseBranch=${storedBaseBranch}, providedBaseBranch=${baseBranchName}`);
 
 				if (baseBranchName) {
@@ -229,11 +288,7 @@ export class SessionManager {
 				console.log(`Creating new branch '${branchName}' from '${derivedFrom}'`);
 
 				// Create new branch and worktree
-				execSync(`git worktree add "${worktreePath}" -b "${branchName}" "${derivedFrom}"`, {
-					cwd: this.repoRoot,
-					encoding: 'utf8',
-					stdio: ['pipe', 'pipe', 'ignore']
-				});
+				await runGit(['worktree', 'add', '-b', branchName, worktreePath, derivedFrom], { cwd: this.repoRoot });
 			}
 
 			const sessionInfo: SessionInfo = {
@@ -245,18 +300,21 @@ export class SessionManager {
 			};
 
 			// Store base branch in git config for persistence
-			this.writeBaseBranchConfig(actualBranchName, actualBaseBranch, worktreePath);
+			await this.writeBaseBranchConfig(actualBranchName, actualBaseBranch, worktreePath);
 
 			this.sessions.set(sessionId, sessionInfo);
 
 			// Initialize base branch commit ID
-			sessionInfo.baseBranchCommitId = this.getBaseBranchCommitId(sessionId);
+			sessionInfo.baseBranchCommitId = await this.getBaseBranchCommitId(sessionId);
 
 			console.log(`Created session ${sessionId}: branch=${actualBranchName}, path=${worktreePath}, baseBranch=${actualBaseBranch}`);
 
 			// Sync local files to worktree
 			await this.syncLocalFilesToWorktree(worktreePath);
 
+			// Seed dependency folders from the main repo or a sibling worktree (before autoinit runs)
+			await this.seedDependencyCache(worktreePath);
+
 			return sessionInfo;
 		} catch (error: any) {
 			const errorMessage = error.message || String(error);
@@ -277,7 +335,7 @@ export class SessionManager {
 	 * @param sessionId - Session identifier to destroy
 	 * @throws Error if worktree cleanup fails
 	 */
-	destroySession(sessionId: string, keepBranch: boolean = false): void {
+	async destroySession(sessionId: string, keepBranch: boolean = false): Promise<void> {
 		console.log(`[session-manager.destroySession] Starting cleanup for sessionId=${sessionId}, keepBranch=${keepBranch}`);
 
 		const session = this.sessions.get(sessionId);
@@ -290,17 +348,11 @@ export class SessionManager {
 
 		// If keepBranch is true, commit any uncommitted changes as WIP
 		if (keepBranch) {
-			const gitStatus = this.getGitStatus(sessionId);
+			const gitStatus = await this.getGitStatus(sessionId);
 			if (gitStatus.hasUncommittedChanges) {
 				try {
-					execSync('git add -A', {
-						cwd: session.worktreePath,
-						stdio: 'pipe'
-					});
-					execSync('git commit -m "WIP"', {
-						cwd: session.worktreePath,
-						stdio: 'pipe'
-					});
+					await runGit(['add', '-A'], { cwd: session.worktreePath });
+					await runGit(['commit', '-m', 'WIP'], { cwd: session.worktreePath });
 					console.log(`[session-manager.destroySession] Created WIP commit for session ${sessionId}`);
 				} catch (error) {
 					console.error(`[session-manager.destroySession] Failed to create WIP commit: ${error}`);
@@ -313,10 +365,7 @@ export class SessionManager {
 		// Step 1: Try git worktree remove --force (single attempt, processes already exited)
 		try {
 			console.log(`[session-manager.destroySession] Attempting: git worktree remove "${session.worktreePath}" --force`);
-			execSync(`git worktree remove "${session.worktreePath}" --force`, {
-				cwd: this.repoRoot,
-				stdio: 'pipe'
-			});
+			await runGit(['worktree', 'remove', '--force', session.worktreePath], { cwd: this.repoRoot });
 			worktreeRemoved = true;
 			console.log(`[session-manager.destroySession] SUCCESS: Removed worktree using git: ${session.worktreePath}`);
 		} catch (error) {
@@ -334,10 +383,7 @@ export class SessionManager {
 				// Step 3: Prune worktree records after manual deletion
 				try {
 					console.log(`[session-manager.destroySession] Running git worktree prune`);
-					execSync('git worktree prune', {
-						cwd: this.repoRoot,
-						stdio: 'pipe'
-					});
+					await runGit(['worktree', 'prune'], { cwd: this.repoRoot });
 					console.log('[session-manager.destroySession] SUCCESS: Pruned worktree records');
 					worktreeRemoved = true;
 				} catch (pruneError) {
@@ -356,15 +402,15 @@ export class SessionManager {
 			throw new Error(`Failed to remove worktree at ${session.worktreePath}. Please close any programs accessing this directory and try again.`);
 		}
 
+		// Hierarchical branch names leave empty parent directories behind (e.g. feature/ of feature/login)
+		await this.removeEmptyParentDirs(session.worktreePath);
+
 		// Only delete branch if worktree was successfully removed AND keepBranch is false
 		if (!keepBranch) {
 			console.log(`[session-manager.destroySession] Worktree removed successfully, now deleting branch: ${session.branchName}`);
 			try {
 				console.log(`[session-manager.destroySession] Executing: git branch -D "${session.branchName}"`);
-				execSync(`git branch -D "${session.branchName}"`, {
-					cwd: this.repoRoot,
-					stdio: 'pipe'
-				});
+				await runGit(['branch', '-D', session.branchName], { cwd: this.repoRoot });
 
 				this.sessions.delete(sessionId);
 				console.log(`[session-manager.destroySession] SUCCESS: Destroyed session ${sessionId}: branch=${session.branchName} deleted`);
@@ -379,12 +425,20 @@ export class SessionManager {
 		}
 	}
 
+	/**
+	 * Stops tracking a session without touching its worktree or branch
+	 * (e.g. when a hibernated session is replaced by a resumed one).
+	 */
+	forgetSession(sessionId: string): void {
+		this.sessions.delete(sessionId);
+	}
+
 	/**
 	 * Cleans up all active sessions.
 	 */
-	destroyAllSessions(): void {
+	async destroyAllSessions(): Promise<void> {
 		for (const [sessionId] of this.sessions) {
-			this.destroySession(sessionId);
+			await this.destroySession(sessionId);
 		}
 	}
 
@@ -417,18 +471,18 @@ export class SessionManager {
 
 	/**
 	 * Discovers existing claude-hydra worktrees from previous sessions.
-	 * @returns Array of worktrees in .claude-hydra/ that match the pattern
+	 * Worktrees that older versions created for remote branches (<worktree-root>/origin/<branch-name>)
+	 * are moved to <worktree-root>/<branch-name> on the way.
+	 * @returns Array of worktrees in one of the worktree roots (see getWorktreeRoots) that match the pattern
 	 */
-	discoverExistingWorktrees(): Array<{ branchName: string; worktreePath: string }> {
+	async discoverExistingWorktrees(): Promise<Array<{ branchName: string; worktreePath: string }>> {
 		try {
 			// Get all worktrees in porcelain format
-			const output = execSync('git worktree list --porcelain', {
-				cwd: this.repoRoot,
-				encoding: 'utf8',
-				stdio: 'pipe'
-			});
+			const output = await runGit(['worktree', 'list', '--porcelain'], { cwd: this.repoRoot });
+			const worktreeRoots = await this.getWorktreeRoots();
+			const remotes = await this.listRemotes();
 
-			const worktrees: Array<{ branchName: string; worktreePath: string }> = [];
+			const worktrees: DiscoveredWorktree[] = [];
 			const lines = output.split('\n');
 
 			let currentWorktree: { path?: string; branch?: string } = {};
@@ -438,7 +492,7 @@ export class SessionManager {
 					// Start of new worktree entry
 					if (currentWorktree.path && currentWorktree.branch) {
 						// Process previous worktree
-						this.processWorktree(currentWorktree, worktrees);
+						this.processWorktree(currentWorktree, worktrees, worktreeRoots, remotes);
 					}
 					currentWorktree = { path: line.substring('worktree '.length).trim() };
 				} else if (line.startsWith('branch ')) {
@@ -453,11 +507,17 @@ export class SessionManager {
 
 			// Process last worktree
 			if (currentWorktree.path && currentWorktree.branch) {
-				this.processWorktree(currentWorktree, worktrees);
+				this.processWorktree(currentWorktree, worktrees, worktreeRoots, remotes);
+			}
+
+			for (const worktree of worktrees) {
+				if (worktree.migrateTo) {
+					await this.migrateWorktree(worktree, worktree.migrateTo);
+				}
 			}
 
 			console.log(`Discovered ${worktrees.length} existing claude-hydra worktree(s)`);
-			return worktrees;
+			return worktrees.map(({ branchName, worktreePath }) => ({ branchName, worktreePath }));
 		} catch (error: any) {
 			console.error('Failed to discover existing worktrees:', error);
 			return [];
@@ -466,28 +526,84 @@ export class SessionManager {
 
 	private processWorktree(
 		worktree: { path?: string; branch?: string },
-		results: Array<{ branchName: string; worktreePath: string }>
+		results: DiscoveredWorktree[],
+		worktreeRoots: string[],
+		remotes: string[]
 	): void {
 		if (!worktree.path || !worktree.branch) return;
 
 		// Normalize paths to use forward slashes for consistent comparison
 		const normalizedWorktreePath = worktree.path.replace(/\\/g, '/');
-		const normalizedBaseDir = this.baseDir.replace(/\\/g, '/');
 
-		// Check if this worktree is in our claude-hydra directory
-		if (!normalizedWorktreePath.startsWith(normalizedBaseDir)) return;
+		for (const worktreeRoot of worktreeRoots) {
+			const normalizedRoot = worktreeRoot.replace(/\\/g, '/');
 
-		// Extract expected branch name from path: ~/.claude-hydra/<repo-name-hash>/<branch-name>
-		const relativePath = normalizedWorktreePath.substring(normalizedBaseDir.length + 1);
-		const expectedBranchName = relativePath.split('/')[0];
+			// Check if this worktree is in one of our worktree roots
+			if (!normalizedWorktreePath.startsWith(normalizedRoot + '/')) continue;
 
-		// Verify branch name matches
-		if (worktree.branch === expectedBranchName) {
-			results.push({
-				branchName: worktree.branch,
-				worktreePath: worktree.path  // Use original path for consistency
-			});
-			console.log(`  Found: ${worktree.branch} at ${worktree.path}`);
+			// The path below the root is the branch name: <worktree-root>/<branch-name>,
+			// with nested directories for hierarchical names (<worktree-root>/feature/login)
+			const relativePath = normalizedWorktreePath.substring(normalizedRoot.length + 1);
+
+			if (relativePath === worktree.branch) {
+				results.push({
+					branchName: worktree.branch,
+					worktreePath: worktree.path  // Use original path for consistency
+				});
+				console.log(`  Found: ${worktree.branch} at ${worktree.path}`);
+				return;
+			}
+
+			// Older versions named the worktree of a remote branch after the remote ref
+			if (remotes.some(remote => relativePath === `${remote}/${worktree.branch}`)) {
+				results.push({
+					branchName: worktree.branch,
+					worktreePath: worktree.path,
+					migrateTo: this.getWorktreePath(worktreeRoot, worktree.branch)
+				});
+				console.log(`  Found: ${worktree.branch} at ${worktree.path} (old location)`);
+				return;
+			}
+		}
+	}
+
+	/**
+	 * Moves a worktree from its old location to the directory named after its branch.
+	 * Worktrees in use by a session or whose new directory is taken stay where they are.
+	 */
+	private async migrateWorktree(worktree: DiscoveredWorktree, newPath: string): Promise<void> {
+		const inUse = [...this.sessions.values()].some(session => resolve(session.worktreePath) === resolve(worktree.worktreePath));
+		if (inUse || existsSync(newPath)) {
+			console.log(`  Not moving ${worktree.worktreePath} to ${newPath}: ${inUse ? 'worktree is in use' : 'directory already exists'}`);
+			return;
+		}
+
+		try {
+			mkdirSync(dirname(newPath), { recursive: true });
+			await runGit(['worktree', 'move', worktree.worktreePath, newPath], { cwd: this.repoRoot });
+			console.log(`  Moved ${worktree.worktreePath} to ${newPath}`);
+			await this.removeEmptyParentDirs(worktree.worktreePath);
+			worktree.worktreePath = newPath;
+		} catch (error) {
+			console.error(`  Failed to move worktree ${worktree.worktreePath} to ${newPath}:`, error);
+		}
+	}
+
+	/**
+	 * Removes the directories between a removed worktree and its worktree root that are
+	 * left empty (e.g. <worktree-root>/feature after removing feature/login).
+	 */
+	private async removeEmptyParentDirs(worktreePath: string): Promise<void> {
+		const worktreeRoots = (await this.getWorktreeRoots()).map(root => resolve(root));
+		let dir = dirname(resolve(worktreePath));
+		while (!worktreeRoots.includes(dir) && worktreeRoots.some(root => dir.startsWith(root + sep))) {
+			try {
+				if (readdirSync(dir).length > 0) break;
+				rmdirSync(dir);
+			} catch (error) {
+				break;
+			}
+			dir = dirname(dir);
 		}
 	}
 
@@ -578,6 +694,144 @@ export class SessionManager {
 		await this.copyLocalFiles(patterns, this.repoRoot, worktreePath);
 	}
 
+	/**
+	 * Reads the .claude-hydra.cachedirs file and returns the dependency directories to seed.
+	 * Each line is a glob pattern for directories, optionally prefixed with the seeding mode
+	 * ("hardlink:" or "clone:", default clone).
+	 */
+	private readCacheDirsConfig(): Array<{ pattern: string; mode: 'hardlink' | 'clone' }> {
+		const configPath = join(this.repoRoot, '.claude-hydra.cachedirs');
+		if (!existsSync(configPath)) {
+			return [];
+		}
+
+		try {
+			const content = readFileSync(configPath, 'utf-8');
+			return content
+				.split('\n')
+				.map(line => line.trim())
+				.filter(line => line && !line.startsWith('#')) // Filter empty lines and comments
+				.map(line => {
+					const match = line.match(/^(hardlink|clone):\s*(.+)$/);
+					return match
+						? { pattern: match[2], mode: match[1] as 'hardlink' | 'clone' }
+						: { pattern: line, mode: 'clone' as const };
+				});
+		} catch (error) {
+			console.error('Failed to read .claude-hydra.cachedirs:', error);
+			return [];
+		}
+	}
+
+	/**
+	 * Gets a fingerprint of the dependency lock files in a directory, used to prefer
+	 * seeding from a source whose dependencies match the new worktree.
+	 */
+	private getLockFilesFingerprint(dir: string): string {
+		const lockFiles = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'Cargo.lock', 'poetry.lock', 'uv.lock', 'requirements.txt'];
+		const hash = createHash('md5');
+		for (const lockFile of lockFiles) {
+			const lockPath = join(dir, lockFile);
+			if (existsSync(lockPath)) {
+				hash.update(lockFile).update(readFileSync(lockPath));
+			}
+		}
+		return hash.digest('hex');
+	}
+
+	/**
+	 * Seeds the dependency directories of a new worktree (node_modules, .venv, target, ...)
+	 * from the main repository or a sibling worktree, so autoinit only has to apply the difference.
+	 * Directories are cloned copy-on-write where the filesystem supports it (falling back to a copy)
+	 * or hardlinked, as configured in .claude-hydra.cachedirs.
+	 */
+	private async seedDependencyCache(worktreePath: string): Promise<void> {
+		const entries = this.readCacheDirsConfig();
+		if (entries.length === 0) return;
+
+		// Candidate sources: main repo first, then sibling worktrees; sources whose
+		// lock files match the new worktree's are preferred
+		const targetFingerprint = this.getLockFilesFingerprint(worktreePath);
+		let worktreePaths: string[] = [];
+		try {
+			worktreePaths = await this.listWorktreePaths();
+		} catch (error) {
+			console.error('  Failed to list the worktrees, seeding from the main repository only:', error);
+		}
+		const sources = [...new Set([this.repoRoot, ...worktreePaths].map(source => resolve(source)))]
+			.filter(source => source !== resolve(worktreePath) && existsSync(source));
+		const matchingSources = sources.filter(source => this.getLockFilesFingerprint(source) === targetFingerprint);
+		const orderedSources = [...matchingSources, ...sources.filter(source => !matchingSources.includes(source))];
+
+		console.log(`Seeding dependency cache for ${worktreePath}...`);
+		for (const { pattern, mode } of entries) {
+			// Don't descend into matched directories (e.g. nested node_modules) or .git
+			const lastSegment = pattern.split('/').filter(Boolean).pop() || pattern;
+			const prunedNames = hasMagic(lastSegment) ? ['.git'] : ['.git', lastSegment];
+			for (const source of orderedSources) {
+				let matches: string[];
+				try {
+					matches = await glob(pattern, {
+						cwd: source,
+						dot: true,
+						ignore: { childrenIgnored: p => prunedNames.includes(p.name) }
+					});
+				} catch (error) {
+					console.error(`  Failed to process pattern '${pattern}' in ${source}:`, error);
+					continue;
+				}
+
+				const dirs = matches.filter(match => {
+					try {
+						return statSync(join(source, match)).isDirectory();
+					} catch {
+						return false;
+					}
+				});
+				if (dirs.length === 0) continue;
+
+				for (const dir of dirs) {
+					const destPath = join(worktreePath, dir);
+					if (existsSync(destPath)) continue;
+					try {
+						await this.seedDirectory(join(source, dir), destPath, mode);
+						console.log(`  Seeded (${mode}): ${dir} from ${source}`);
+					} catch (error) {
+						console.error(`  Failed to seed ${dir} from ${source}:`, error);
+						// Don't leave a half-seeded directory behind - autoinit would trust it
+						await fsp.rm(destPath, { recursive: true, force: true });
+					}
+				}
+				// Only seed each pattern from the first source that has it
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Recreates a directory tree with hardlinks to the source files or copy-on-write clones of them
+	 * (falling back to a copy). Symlinks are copied as they are, so relative links (e.g. node_modules/.bin)
+	 * keep pointing into the new tree.
+	 */
+	private async seedDirectory(sourceDir: string, destDir: string, mode: 'hardlink' | 'clone'): Promise<void> {
+		await fsp.mkdir(destDir, { recursive: true });
+		for (const entry of await fsp.readdir(sourceDir, { withFileTypes: true })) {
+			const sourcePath = join(sourceDir, entry.name);
+			const destPath = join(destDir, entry.name);
+			if (entry.isDirectory()) {
+				await this.seedDirectory(sourcePath, destPath, mode);
+			} else if (entry.isSymbolicLink()) {
+				await fsp.symlink(await fsp.readlink(sourcePath), destPath);
+			} else if (!entry.isFile()) {
+				continue; // Sockets and FIFOs can't be copied
+			} else if (mode === 'hardlink') {
+				await fsp.link(sourcePath, destPath);
+			} else {
+				await fsp.copyFile(sourcePath, destPath, fsConstants.COPYFILE_FICLONE);
+			}
+		}
+	}
+
 	/**
 	 * Syncs local files from worktree back to main repo (on merge).
 	 * Uses the .claude-hydra.localfiles from the worktree, not the main repo.
@@ -591,72 +845,45 @@ export class SessionManager {
 		await this.copyLocalFiles(patterns, worktreePath, this.repoRoot);
 	}
 
-	private ensureValidBaseBranch(): void {
+	private static async ensureValidBaseBranch(repoRoot: string): Promise<void> {
+		const git = (args: string[]) => runGit(args, { cwd: repoRoot });
+		const switchToMain = async () => {
+			if (!await tryGit(['rev-parse', '--verify', 'main'], { cwd: repoRoot })) {
+				await git(['checkout', '-b', 'main']);
+			} else {
+				await git(['checkout', 'main']);
+			}
+		};
+
 		try {
 			// Check if repository has any commits
 			try {
-				execSync('git rev-parse HEAD', {
-					cwd: this.repoRoot,
-					stdio: 'pipe'
-				});
+				await git(['rev-parse', 'HEAD']);
 				// Repository has commits, check if we're on a branch
 				try {
-					const branch = execSync('git branch --show-current', {
-						cwd: this.repoRoot,
-						encoding: 'utf8',
-						stdio: 'pipe'
-					}).trim();
+					const branch = (await git(['branch', '--show-current'])).trim();
 
 					// If empty string, we're in detached HEAD state
 					if (!branch) {
 						console.log('Detached HEAD detected, switching to "main" branch...');
-						if (!this.branchExists('main')) {
-							execSync('git checkout -b main', {
-								cwd: this.repoRoot,
-								stdio: 'pipe'
-							});
-						} else {
-							execSync('git checkout main', {
-								cwd: this.repoRoot,
-								stdio: 'pipe'
-							});
-						}
+						await switchToMain();
 					}
 					// Otherwise we're on a branch already, keep using it
 				} catch (error) {
 					// Error getting branch, switch to main
 					console.log('Could not determine branch, switching to "main" branch...');
-					if (!this.branchExists('main')) {
-						execSync('git checkout -b main', {
-							cwd: this.repoRoot,
-							stdio: 'pipe'
-						});
-					} else {
-						execSync('git checkout main', {
-							cwd: this.repoRoot,
-							stdio: 'pipe'
-						});
-					}
+					await switchToMain();
 				}
 			} catch (error) {
 				// No commits exist, create initial commit and main branch
 				console.log('No commits found, creating initial commit and "main" branch...');
-				execSync('git commit --allow-empty -m "Initial commit"', {
-					cwd: this.repoRoot,
-					stdio: 'pipe'
-				});
+				await git(['commit', '--allow-empty', '-m', 'Initial commit']);
 				// Try to rename current branch to main, or create main branch
 				try {
-					execSync('git branch -M main', {
-						cwd: this.repoRoot,
-						stdio: 'pipe'
-					});
+					await git(['branch', '-M', 'main']);
 				} catch (renameError) {
 					// If rename fails, try checkout -b
-					execSync('git checkout -b main', {
-						cwd: this.repoRoot,
-						stdio: 'pipe'
-					});
+					await git(['checkout', '-b', 'main']);
 				}
 			}
 		} catch (error) {
@@ -665,63 +892,61 @@ export class SessionManager {
 		}
 	}
 
-	private isGitRepository(cwd: string): boolean {
-		try {
-			execSync('git rev-parse --git-dir', { cwd, stdio: 'pipe' });
-			return true;
-		} catch {
-			return false;
-		}
+	/**
+	 * Checks whether a local branch exists (remote refs like "origin/main" don't count).
+	 */
+	private branchExists(branchName: string): Promise<boolean> {
+		return tryGit(['rev-parse', '--verify', '--quiet', `refs/heads/${branchName}`], { cwd: this.repoRoot });
 	}
 
-	private getRepoRoot(cwd: string): string {
+	/**
+	 * Lists the names of the repository's remotes.
+	 */
+	async listRemotes(): Promise<string[]> {
 		try {
-			return execSync('git rev-parse --show-toplevel', {
-				cwd,
-				encoding: 'utf8',
-				stdio: 'pipe'
-			}).trim();
-		} catch (error) {
-			throw new Error('Failed to get repository root');
+			return (await runGit(['remote'], { cwd: this.repoRoot })).split('\n').map(r => r.trim()).filter(r => r !== '');
+		} catch (e) {
+			// No remotes configured
+			return [];
 		}
 	}
 
-	private getBaseBranch(): string {
-		try {
-			return execSync('git branch --show-current', {
-				cwd: this.repoRoot,
-				encoding: 'utf8',
-				stdio: 'pipe'
-			}).trim();
-		} catch (error) {
-			throw new Error('Failed to get current branch');
+	/**
+	 * Decides whether a branch name given by the user refers to a remote branch. Names with
+	 * slashes are local branches unless they start with the name of a remote and no local
+	 * branch of that name exists (e.g. "origin/feature/login", but not "feature/login").
+	 * @returns The remote and branch name, or null for a local (existing or new) branch
+	 * @throws Error if the name starts with a remote but that remote has no such branch
+	 */
+	private async resolveRemoteBranch(branchName: string): Promise<RemoteBranch | null> {
+		if (await this.branchExists(branchName)) {
+			return null;
 		}
+		const remoteBranch = splitRemoteBranch(branchName, await this.listRemotes());
+		if (remoteBranch && !await tryGit(['rev-parse', '--verify', '--quiet', `refs/remotes/${branchName}`], { cwd: this.repoRoot })) {
+			throw new Error(`Remote branch '${branchName}' does not exist`);
+		}
+		return remoteBranch;
 	}
 
-	private branchExists(branchName: string): boolean {
-		try {
-			execSync(`git rev-parse --verify "${branchName}"`, {
-				cwd: this.repoRoot,
-				stdio: 'pipe'
-			});
-			return true;
-		} catch {
-			return false;
-		}
+	/**
+	 * Gets the worktree directory of a branch: <worktree-root>/<branch-name>, where the
+	 * segments of hierarchical names become nested directories (feature/login -> feature/login).
+	 * Git doesn't allow a branch to be the prefix of another one (feature vs. feature/login),
+	 * so the directories of two branches never overlap.
+	 */
+	private getWorktreePath(worktreeRoot: string, branchName: string): string {
+		return join(worktreeRoot, ...branchName.split('/'));
 	}
 
 	/**
 	 * Detects the default base branch for the repository.
 	 * Checks for "main" first, then "master", then falls back to current branch.
 	 */
-	private detectDefaultBaseBranch(): string {
+	private async detectDefaultBaseBranch(): Promise<string> {
 		try {
 			// Try to find remote HEAD reference (most reliable)
-			const remoteHead = execSync('git symbolic-ref refs/remotes/origin/HEAD', {
-				cwd: this.repoRoot,
-				encoding: 'utf8',
-				stdio: 'pipe'
-			}).trim();
+			const remoteHead = (await runGit(['symbolic-ref', 'refs/remotes/origin/HEAD'], { cwd: this.repoRoot })).trim();
 
 			// Extract branch name from "refs/remotes/origin/main"
 			const match = remoteHead.match(/refs\/remotes\/origin\/(.+)/);
@@ -733,12 +958,12 @@ export class SessionManager {
 		}
 
 		// Check if "main" branch exists locally
-		if (this.branchExists('main')) {
+		if (await this.branchExists('main')) {
 			return 'main';
 		}
 
 		// Check if "master" branch exists locally
-		if (this.branchExists('master')) {
+		if (await this.branchExists('master')) {
 			return 'master';
 		}
 
@@ -749,7 +974,7 @@ export class SessionManager {
 	/**
 	 * Writes the base branch to git config for a specific branch.
 	 */
-	private writeBaseBranchConfig(branchName: string, baseBranchName: string, worktreePath: string): void {
+	private async writeBaseBranchConfig(branchName: string, baseBranchName: string, worktreePath: string): Promise<void> {
 		try {
 			// Ensure worktree directory exists
 			if (!existsSync(worktreePath)) {
@@ -761,18 +986,10 @@ export class SessionManager {
 			console.log(`[writeBaseBranchConfig] CWD: ${worktreePath}`);
 
 			// Write the config (quote the key for safety)
-			execSync(`git config "branch.${branchName}.base" "${baseBranchName}"`, {
-				cwd: worktreePath,
-				encoding: 'utf8',
-				stdio: ['pipe', 'pipe', 'pipe']
-			});
+			await runGit(['config', `branch.${branchName}.base`, baseBranchName], { cwd: worktreePath });
 
 			// Verify it was written
-			const verify = execSync(`git config --get "branch.${branchName}.base"`, {
-				cwd: worktreePath,
-				encoding: 'utf8',
-				stdio: ['pipe', 'pipe', 'pipe']
-			}).trim();
+			const verify = (await runGit(['config', '--get', `branch.${branchName}.base`], { cwd: worktreePath })).trim();
 
 			if (verify === baseBranchName) {
 				console.log(`[writeBaseBranchConfig] SUCCESS: Stored and verified branch.${branchName}.base = ${baseBranchName}`);
@@ -793,13 +1010,9 @@ export class SessionManager {
 	 * Reads the base branch from git config for a specific branch.
 	 * Returns null if not set.
 	 */
-	private readBaseBranchConfig(branchName: string, worktreePath: string): string | null {
+	private async readBaseBranchConfig(branchName: string, worktreePath: string): Promise<string | null> {
 		try {
-			const result = execSync(`git config --get "branch.${branchName}.base"`, {
-				cwd: worktreePath,
-				encoding: 'utf8',
-				stdio: ['pipe', 'pipe', 'pipe']
-			}).trim();
+			const result = (await runGit(['config', '--get', `branch.${branchName}.base`], { cwd: worktreePath })).trim();
 
 			if (result) {
 				console.log(`[readBaseBranchConfig] Found: branch.${branchName}.base = ${result}`);
@@ -818,13 +1031,9 @@ export class SessionManager {
 	 * @param branchName - The branch name to get the base branch for
 	 * @returns The base branch name or null if not set
 	 */
-	getBaseBranchForBranch(branchName: string): string | null {
+	async getBaseBranchForBranch(branchName: string): Promise<string | null> {
 		try {
-			const result = execSync(`git config --get "branch.${branchName}.base"`, {
-				cwd: this.repoRoot,
-				encoding: 'utf8',
-				stdio: ['pipe', 'pipe', 'pipe']
-			}).trim();
+			const result = (await runGit(['config', '--get', `branch.${branchName}.base`], { cwd: this.repoRoot })).trim();
 
 			if (result) {
 				console.log(`[getBaseBranchForBranch] Found: branch.${branchName}.base = ${result}`);
@@ -839,54 +1048,202 @@ export class SessionManager {
 	}
 
 	/**
-	 * Lists all local branches in the repository.
-	 * @returns Array of branch names
+	 * Reads a per-branch setting from git config (branch.<name>.<key>).
+	 * @returns The value, or null if not set
 	 */
-	listBranches(): string[] {
+	private async readBranchConfig(branchName: string, key: string): Promise<string | null> {
 		try {
-			// Get list of remote names to filter them out
-			let remoteNames: string[] = [];
-			try {
-				const remotesOutput = execSync('git remote', {
-					cwd: this.repoRoot,
-					encoding: 'utf8',
-					stdio: 'pipe'
-				}).trim();
-				if (remotesOutput) {
-					remoteNames = remotesOutput.split('\n').map(r => r.trim()).filter(r => r !== '');
-				}
-			} catch (e) {
-				// No remotes configured, continue anyway
+			const result = (await runGit(['config', '--get', `branch.${branchName}.${key}`], { cwd: this.repoRoot })).trim();
+			return result || null;
+		} catch (error) {
+			// Config not set
+			return null;
+		}
+	}
+
+	/**
+	 * Writes a per-branch setting to git config (branch.<name>.<key>).
+	 */
+	private async writeBranchConfig(branchName: string, key: string, value: string): Promise<void> {
+		try {
+			await runGit(['config', `branch.${branchName}.${key}`, value], { cwd: this.repoRoot });
+		} catch (error: any) {
+			console.error(`[writeBranchConfig] Failed to set branch.${branchName}.${key}:`, error.message);
+			// Don't throw - this is not critical
+		}
+	}
+
+	/**
+	 * Gets the agent profile a branch was started with (stored in git config).
+	 * @param branchName - The branch name to look up
+	 * @returns The profile name, or null if not set
+	 */
+	getAgentProfileForBranch(branchName: string): Promise<string | null> {
+		return this.readBranchConfig(branchName, 'agentprofile');
+	}
+
+	/**
+	 * Stores the agent profile of a branch in git config, so adopting or
+	 * restarting the branch later runs the same agent.
+	 */
+	setAgentProfileForBranch(branchName: string, profileName: string): Promise<void> {
+		return this.writeBranchConfig(branchName, 'agentprofile', profileName);
+	}
+
+	/**
+	 * Gets the permission mode a branch was started with (stored in git config).
+	 * @returns The permission mode, or null if not set
+	 */
+	getPermissionModeForBranch(branchName: string): Promise<string | null> {
+		return this.readBranchConfig(branchName, 'permissionmode');
+	}
+
+	/**
+	 * Stores the permission mode of a branch in git config.
+	 */
+	setPermissionModeForBranch(branchName: string, mode: string): Promise<void> {
+		return this.writeBranchConfig(branchName, 'permissionmode', mode);
+	}
+
+	/**
+	 * Gets whether the terminal output of a branch is recorded (stored in git config).
+	 */
+	async getRecordingForBranch(branchName: string): Promise<boolean> {
+		return await this.readBranchConfig(branchName, 'record') === 'true';
+	}
+
+	/**
+	 * Stores whether the terminal output of a branch is recorded.
+	 */
+	setRecordingForBranch(branchName: string, record: boolean): Promise<void> {
+		return this.writeBranchConfig(branchName, 'record', String(record));
+	}
+
+	/**
+	 * Gets the directory with the asciicast recordings of a branch
+	 * (~/.claude-hydra/<repo-name-hash>/.recordings/<branch-name>).
+	 */
+	getRecordingsDir(branchName: string): string {
+		return join(this.baseDir, '.recordings', branchName);
+	}
+
+	/**
+	 * Gets the log file of the webhook deliveries of this repository
+	 * (~/.claude-hydra/<repo-name-hash>/.webhook-deliveries.log).
+	 */
+	getWebhookLogPath(): string {
+		return join(this.baseDir, '.webhook-deliveries.log');
+	}
+
+	/**
+	 * Gets the directory new worktrees are created in: git config claude-hydra.worktreeroot,
+	 * otherwise the server-wide --worktree-root, otherwise ~/.claude-hydra/<repo-name-hash>.
+	 */
+	async getWorktreeRoot(): Promise<string> {
+		try {
+			const root = (await runGit(['config', '--get', 'claude-hydra.worktreeroot'], { cwd: this.repoRoot })).trim();
+			if (root) {
+				return this.expandWorktreeRoot(root);
 			}
+		} catch (error) {
+			// Config not set
+		}
+		return globalThis.__defaultWorktreeRoot ? this.expandServerWorktreeRoot(globalThis.__defaultWorktreeRoot) : this.baseDir;
+	}
 
-			const output = execSync('git branch -a --format=%(refname:short)', {
-				cwd: this.repoRoot,
-				encoding: 'utf8',
-				stdio: 'pipe'
-			}).trim();
+	/**
+	 * Gets the repository's default merge strategy (git config claude-hydra.mergestrategy).
+	 */
+	async getMergeStrategy(): Promise<MergeStrategy> {
+		let strategy: string | null = null;
+		try {
+			strategy = (await runGit(['config', '--get', 'claude-hydra.mergestrategy'], { cwd: this.repoRoot })).trim();
+		} catch (error) {
+			// Config not set
+		}
+		if (strategy && !isMergeStrategy(strategy)) {
+			console.error(`Unknown merge strategy '${strategy}' in git config claude-hydra.mergestrategy, using ${DEFAULT_MERGE_STRATEGY}`);
+		}
+		return isMergeStrategy(strategy) ? strategy : DEFAULT_MERGE_STRATEGY;
+	}
+
+	/**
+	 * Gets all directories existing worktrees are discovered in: the configured root, the
+	 * server-wide root and the default root (worktrees stay usable when the setting changes).
+	 */
+	private async getWorktreeRoots(): Promise<string[]> {
+		const roots = [await this.getWorktreeRoot(), this.baseDir];
+		if (globalThis.__defaultWorktreeRoot) {
+			roots.push(this.expandServerWorktreeRoot(globalThis.__defaultWorktreeRoot));
+		}
+		return [...new Set(roots)];
+	}
+
+	/**
+	 * Turns a worktree root setting into an absolute path.
+	 * - {repo} is replaced by the repository name, {hash} by the repository hash
+	 * - A leading ~ is the home directory
+	 * - Relative paths are relative to the repository root (e.g. ../{repo}.worktrees)
+	 */
+	private expandWorktreeRoot(root: string): string {
+		const expanded = root
+			.replace(/\{repo\}/g, basename(this.repoRoot))
+			.replace(/\{hash\}/g, this.repoHash)
+			.replace(/^~(?=$|[\/\\])/, homedir());
+		return resolve(this.repoRoot, expanded);
+	}
+
+	/**
+	 * Turns the server-wide worktree root into an absolute path. It is shared by all repositories,
+	 * so without {repo} or {hash} each repository gets its own <repo-name>-<hash> subdirectory
+	 * (otherwise equally named branches of different repositories would collide).
+	 */
+	private expandServerWorktreeRoot(root: string): string {
+		const expanded = this.expandWorktreeRoot(root);
+		return /\{(repo|hash)\}/.test(root) ? expanded : join(expanded, basename(this.baseDir));
+	}
+
+	/**
+	 * Gets the maximum number of sessions of this repository that may run at the same time
+	 * (git config claude-hydra.maxrunning, 0 = unlimited).
+	 */
+	async getMaxRunningSessions(): Promise<number> {
+		try {
+			const result = (await runGit(['config', '--get', 'claude-hydra.maxrunning'], { cwd: this.repoRoot })).trim();
+			const limit = parseInt(result, 10);
+			return limit > 0 ? limit : 0;
+		} catch (error) {
+			// Config not set
+			return 0;
+		}
+	}
+
+	/**
+	 * Lists all local branches in the repository, followed by the remote branches.
+	 * Remote branches are prefixed with their remote (e.g. "origin/feature/login");
+	 * use splitRemoteBranch with listRemotes() to tell them apart from local names with slashes.
+	 * @returns Array of branch names
+	 */
+	async listBranches(): Promise<string[]> {
+		try {
+			// Full ref names tell local and remote branches apart; symbolic refs (origin/HEAD) are skipped
+			const output = (await runGit(['for-each-ref', '--format=%(refname) %(symref)', 'refs/heads', 'refs/remotes'], { cwd: this.repoRoot })).trim();
 
 			if (!output) {
 				return [];
 			}
 
-			const allBranches = output.split('\n')
-				.map(branch => branch.trim())
-				.filter(branch => branch !== '')
-				// Filter out HEAD references
-				.filter(branch => !branch.includes('HEAD ->'))
-				// Remove 'remotes/' prefix if present
-				.map(branch => branch.replace(/^remotes\//, ''));
-
-			// Separate local and remote branches
-			const localBranches = allBranches.filter(branch => !branch.includes('/'))
-				// Filter out bare remote names (e.g., "origin")
-				.filter(branch => !remoteNames.includes(branch));
-			const remoteBranches = allBranches.filter(branch => branch.includes('/'))
-				// Filter out bare remote names with trailing slash
-				.filter(branch => {
-					const parts = branch.split('/');
-					return parts.length >= 2 && parts[1] !== '';
-				});
+			const localBranches: string[] = [];
+			const remoteBranches: string[] = [];
+			for (const line of output.split('\n')) {
+				const [refName, symRef] = line.trim().split(' ');
+				if (symRef) continue;
+				if (refName.startsWith('refs/heads/')) {
+					localBranches.push(refName.substring('refs/heads/'.length));
+				} else if (refName.startsWith('refs/remotes/')) {
+					remoteBranches.push(refName.substring('refs/remotes/'.length));
+				}
+			}
 
 			// Sort remote branches alphabetically
 			remoteBranches.sort();
@@ -904,7 +1261,7 @@ export class SessionManager {
 	 * @param sessionId - Session identifier
 	 * @returns The commit SHA of the session's base branch, or null if unable to retrieve
 	 */
-	private getBaseBranchCommitId(sessionId: string): string | null {
+	private async getBaseBranchCommitId(sessionId: string): Promise<string | null> {
 		const session = this.sessions.get(sessionId);
 		if (!session) {
 			console.error(`Session ${sessionId} not found`);
@@ -912,11 +1269,7 @@ export class SessionManager {
 		}
 
 		try {
-			return execSync(`git rev-parse ${session.baseBranchName}`, {
-				cwd: session.worktreePath,
-				encoding: 'utf8',
-				stdio: 'pipe'
-			}).trim();
+			return (await runGit(['rev-parse', '--verify', session.baseBranchName], { cwd: session.worktreePath })).trim();
 		} catch (error) {
 			console.error(`Failed to get base branch commit ID for session ${sessionId}:`, error);
 			return null;
@@ -928,14 +1281,14 @@ export class SessionManager {
 	 * @param sessionId - Session identifier
 	 * @returns True if the session's base branch commit ID has changed, false otherwise
 	 */
-	checkAndUpdateBaseBranch(sessionId: string): boolean {
+	async checkAndUpdateBaseBranch(sessionId: string): Promise<boolean> {
 		const session = this.sessions.get(sessionId);
 		if (!session) {
 			console.error(`Session ${sessionId} not found`);
 			return false;
 		}
 
-		const currentCommitId = this.getBaseBranchCommitId(sessionId);
+		const currentCommitId = await this.getBaseBranchCommitId(sessionId);
 		if (currentCommitId !== session.baseBranchCommitId) {
 			console.log(`Base branch commit ID changed for session ${sessionId} (${session.baseBranchName}): ${session.baseBranchCommitId} -> ${currentCommitId}`);
 			session.baseBranchCommitId = currentCommitId;
@@ -947,9 +1300,10 @@ export class SessionManager {
 	/**
 	 * Gets the git status for a session's worktree.
 	 * @param sessionId - Session identifier
+	 * @param signal - Cancels the git commands (e.g. when the requesting client disconnected)
 	 * @returns Status object with uncommitted changes, unmerged commits, and behind base flags
 	 */
-	getGitStatus(sessionId: string): GitStatus {
+	async getGitStatus(sessionId: string, signal?: AbortSignal): Promise<GitStatus> {
 		console.log(`[getGitStatus] Called for sessionId="${sessionId}"`);
 		const session = this.sessions.get(sessionId);
 		if (!session) {
@@ -962,33 +1316,21 @@ export class SessionManager {
 		try {
 			// Check for uncommitted changes (working tree + staged)
 			console.log(`[getGitStatus] Running: git status --porcelain in ${session.worktreePath}`);
-			const statusOutput = execSync('git status --porcelain', {
-				cwd: session.worktreePath,
-				encoding: 'utf8',
-				stdio: 'pipe'
-			});
+			const statusOutput = await runGit(['status', '--porcelain'], { cwd: session.worktreePath, signal });
 			console.log(`[getGitStatus] git status output (${statusOutput.length} chars): "${statusOutput}"`);
 			const hasUncommittedChanges = statusOutput.trim().length > 0;
 			console.log(`[getGitStatus] hasUncommittedChanges: ${hasUncommittedChanges}`);
 
 			// Check for unmerged commits (commits in branch that aren't in base)
 			console.log(`[getGitStatus] Running: git log ${session.baseBranchName}..${session.branchName} --oneline`);
-			const logOutput = execSync(`git log ${session.baseBranchName}..${session.branchName} --oneline`, {
-				cwd: session.worktreePath,
-				encoding: 'utf8',
-				stdio: 'pipe'
-			}).trim();
+			const logOutput = (await runGit(['log', '--oneline', `${session.baseBranchName}..${session.branchName}`], { cwd: session.worktreePath, signal })).trim();
 			console.log(`[getGitStatus] git log output (${logOutput.length} chars)`);
 			const hasUnmergedCommits = logOutput.length > 0;
 			console.log(`[getGitStatus] hasUnmergedCommits: ${hasUnmergedCommits}`);
 
 			// Check if branch is behind base (base has commits not in branch)
 			console.log(`[getGitStatus] Running: git rev-list --count HEAD..${session.baseBranchName}`);
-			const behindOutput = execSync(`git rev-list --count HEAD..${session.baseBranchName}`, {
-				cwd: session.worktreePath,
-				encoding: 'utf8',
-				stdio: 'pipe'
-			}).trim();
+			const behindOutput = (await runGit(['rev-list', '--count', `HEAD..${session.baseBranchName}`], { cwd: session.worktreePath, signal })).trim();
 			console.log(`[getGitStatus] git rev-list output: "${behindOutput}"`);
 			const isBehindBase = parseInt(behindOutput) > 0;
 			console.log(`[getGitStatus] isBehindBase: ${isBehindBase}`);
@@ -1011,7 +1353,7 @@ export class SessionManager {
 	 * @param sessionId - Session identifier
 	 * @returns Array of commit info objects
 	 */
-	getCommitLog(sessionId: string): CommitInfo[] {
+	async getCommitLog(sessionId: string): Promise<CommitInfo[]> {
 		const session = this.sessions.get(sessionId);
 		if (!session) {
 			throw new Error(`Session ${sessionId} not found`);
@@ -1021,11 +1363,7 @@ export class SessionManager {
 			// Get commits from base branch to current branch
 			// Format: hash|timestamp|subject|fullMessage
 			// Using %x00 (null byte) as separator to handle messages with pipes
-			const logOutput = execSync(`git log ${session.baseBranchName}..${session.branchName} --format="%h%x00%at%x00%s%x00%B%x00"`, {
-				cwd: session.worktreePath,
-				encoding: 'utf8',
-				stdio: 'pipe'
-			}).trim();
+			const logOutput = (await runGit(['log', '--format=%h%x00%at%x00%s%x00%B%x00', `${session.baseBranchName}..${session.branchName}`], { cwd: session.worktreePath })).trim();
 
 			// Parse the output into CommitInfo objects
 			if (!logOutput) {
@@ -1070,7 +1408,7 @@ export class SessionManager {
 	 * @param commitId - Commit hash (or null for working tree)
 	 * @returns Array of file info objects with path and status
 	 */
-	getFileList(sessionId: string, commitId: string | null): FileInfo[] {
+	async getFileList(sessionId: string, commitId: string | null): Promise<FileInfo[]> {
 		const session = this.sessions.get(sessionId);
 		if (!session) {
 			throw new Error(`Session ${sessionId} not found`);
@@ -1079,10 +1417,10 @@ export class SessionManager {
 		try {
 			if (commitId === null) {
 				// Get working tree status
-				return this.getWorkingTreeFileList(session);
+				return await this.getWorkingTreeFileList(session);
 			} else {
 				// Get file list for specific commit
-				return this.getCommitFileList(session, commitId);
+				return await this.getCommitFileList(session, commitId);
 			}
 		} catch (error: any) {
 			console.error(`Error getting file list for session ${sessionId}:`, error);
@@ -1123,105 +1461,79 @@ export class SessionManager {
 	/**
 	 * Gets file list for working tree with status information.
 	 */
-	private getWorkingTreeFileList(session: SessionInfo): FileInfo[] {
+	private async getWorkingTreeFileList(session: SessionInfo): Promise<FileInfo[]> {
+		// All paths are read NUL-terminated (-z) - otherwise git quotes paths with quotes, backslashes or control characters
 		// Get all tracked files
-		const trackedOutput = execSync('git ls-files', {
-			cwd: session.worktreePath,
-			encoding: 'utf8',
-			stdio: 'pipe',
-			maxBuffer: 10 * 1024 * 1024
-		}).trim();
+		const trackedPaths = splitNul(await runGit(['ls-files', '-z'], { cwd: session.worktreePath }));
 
 		// Get status of modified/added/deleted tracked files
-		const statusOutput = execSync('git status --porcelain', {
-			cwd: session.worktreePath,
-			encoding: 'utf8',
-			stdio: 'pipe'
-		});
+		const statusEntries = splitNul(await runGit(['status', '--porcelain', '-z'], { cwd: session.worktreePath }));
 
 		// Get untracked files individually (not collapsed as directories)
-		const untrackedOutput = execSync('git ls-files --others', {
-			cwd: session.worktreePath,
-			encoding: 'utf8',
-			stdio: 'pipe',
-			maxBuffer: 10 * 1024 * 1024
-		}).trim();
+		const untrackedPaths = splitNul(await runGit(['ls-files', '--others', '-z'], { cwd: session.worktreePath }));
 
 		// Parse status into a map (only for tracked files)
 		const statusMap = new Map<string, FileStatus>();
-		if (statusOutput.trim()) {
-			for (const line of statusOutput.split('\n')) {
-				if (!line) continue; // Skip empty lines
-				// Format: XY PATH or XY PATH -> ORIGPATH (for renames)
-				const xy = line.substring(0, 2);
-				let path = line.substring(3).split(' -> ')[0].trim();
-
-				const x = xy[0]; // Index status
-				const y = xy[1]; // Working tree status
-
-				// Skip untracked files (we'll handle them separately)
-				if (x === '?' && y === '?') {
-					continue;
-				}
+		for (let i = 0; i < statusEntries.length; i++) {
+			// Format: XY PATH (renames and copies are followed by an entry with the original path)
+			const xy = statusEntries[i].substring(0, 2);
+			let path = statusEntries[i].substring(3);
 
-				// Normalize path separators to forward slashes
-				path = path.replace(/\\/g, '/');
-
-				// Skip empty paths
-				if (!path) continue;
-
-				// Determine file status based on git status codes
-				let status: FileStatus = 'unchanged';
-				if (x === 'A' || y === 'A') {
-					status = 'added';
-				} else if (x === 'D' || y === 'D') {
-					status = 'deleted';
-				} else if (x === 'M' || y === 'M' || x === 'R' || y === 'R') {
-					status = 'modified';
-				}
+			const x = xy[0]; // Index status
+			const y = xy[1]; // Working tree status
+
+			if (x === 'R' || x === 'C') {
+				i++; // Skip the original path
+			}
 
-				statusMap.set(path, status);
+			// Skip untracked files (we'll handle them separately)
+			if (x === '?' && y === '?') {
+				continue;
 			}
+
+			// Normalize path separators to forward slashes
+			path = path.replace(/\\/g, '/');
+
+			// Skip empty paths
+			if (!path) continue;
+
+			// Determine file status based on git status codes
+			let status: FileStatus = 'unchanged';
+			if (x === 'A' || y === 'A') {
+				status = 'added';
+			} else if (x === 'D' || y === 'D') {
+				status = 'deleted';
+			} else if (x === 'M' || y === 'M' || x === 'R' || y === 'R') {
+				status = 'modified';
+			}
+
+			statusMap.set(path, status);
 		}
 
 		// Build file list with all tracked files
 		const files: FileInfo[] = [];
-		if (trackedOutput) {
-			for (let path of trackedOutput.split('\n')) {
-				path = path.trim();
-				// Skip empty paths
-				if (!path) continue;
-
-				// Normalize path separators to forward slashes
-				path = path.replace(/\\/g, '/');
+		for (let path of trackedPaths) {
+			// Normalize path separators to forward slashes
+			path = path.replace(/\\/g, '/');
 
-				files.push({
-					path,
-					status: statusMap.get(path) || 'unchanged'
-				});
-			}
+			files.push({
+				path,
+				status: statusMap.get(path) || 'unchanged'
+			});
 		}
 
 		// Get ignored files
-		const ignoredOutput = execSync('git status --ignored --porcelain', {
-			cwd: session.worktreePath,
-			encoding: 'utf8',
-			stdio: 'pipe',
-			maxBuffer: 10 * 1024 * 1024
-		}).trim();
+		const ignoredEntries = splitNul(await runGit(['status', '--ignored', '--porcelain', '-z'], { cwd: session.worktreePath }));
 
 		// Parse ignored files from status output
-		// Lines starting with "!! " are ignored files
+		// Entries starting with "!! " are ignored files
 		const ignoredFiles = new Set<string>();
-		if (ignoredOutput) {
-			for (const line of ignoredOutput.split('\n')) {
-				if (line.startsWith('!! ')) {
-					let path = line.substring(3).trim();
-					// Normalize path separators to forward slashes
-					path = path.replace(/\\/g, '/');
-					if (path) {
-						ignoredFiles.add(path);
-					}
+		for (const entry of ignoredEntries) {
+			if (entry.startsWith('!! ')) {
+				// Normalize path separators to forward slashes
+				const path = entry.substring(3).replace(/\\/g, '/');
+				if (path) {
+					ignoredFiles.add(path);
 				}
 			}
 		}
@@ -1244,19 +1556,13 @@ export class SessionManager {
 		};
 
 		// Add untracked files (now includes both untracked and ignored)
-		if (untrackedOutput) {
-			for (let path of untrackedOutput.split('\n')) {
-				path = path.trim();
-				// Skip empty paths
-				if (!path) continue;
+		for (let path of untrackedPaths) {
+			// Normalize path separators to forward slashes
+			path = path.replace(/\\/g, '/');
 
-				// Normalize path separators to forward slashes
-				path = path.replace(/\\/g, '/');
-
-				// Determine if this file is ignored or just untracked
-				const status: FileStatus = isPathIgnored(path) ? 'ignored' : 'untracked';
-				files.push({ path, status });
-			}
+			// Determine if this file is ignored or just untracked
+			const status: FileStatus = isPathIgnored(path) ? 'ignored' : 'untracked';
+			files.push({ path, status });
 		}
 
 		// Scan filesystem for all directories (including empty ones)
@@ -1282,53 +1588,39 @@ export class SessionManager {
 	/**
 	 * Gets file list for a specific commit.
 	 */
-	private getCommitFileList(session: SessionInfo, commitId: string): FileInfo[] {
-		// Get all files in the commit
-		const allFilesOutput = execSync(`git ls-tree -r --name-only "${commitId}"`, {
-			cwd: session.worktreePath,
-			encoding: 'utf8',
-			stdio: 'pipe',
-			maxBuffer: 10 * 1024 * 1024
-		}).trim();
+	private async getCommitFileList(session: SessionInfo, commitId: string): Promise<FileInfo[]> {
+		if (!isCommitHash(commitId)) {
+			throw new Error(`Invalid commit: ${commitId}`);
+		}
+
+		// Get all files in the commit (NUL-terminated, so paths aren't quoted)
+		const allFiles = splitNul(await runGit(['ls-tree', '-r', '--name-only', '-z', commitId], { cwd: session.worktreePath }));
 
 		// Get files that were modified in this commit (compared to parent)
-		// Use diff-tree to show changes in this commit
-		const diffOutput = execSync(`git diff-tree --no-commit-id --name-status -r "${commitId}"`, {
-			cwd: session.worktreePath,
-			encoding: 'utf8',
-			stdio: 'pipe'
-		}).trim();
+		// Use diff-tree to show changes in this commit (entries alternate between status and path)
+		const diffEntries = splitNul(await runGit(['diff-tree', '--no-commit-id', '--name-status', '-z', '-r', commitId], { cwd: session.worktreePath }));
 
 		// Parse diff output into a map of file -> status
 		const changedFiles = new Map<string, FileStatus>();
-		if (diffOutput) {
-			for (const line of diffOutput.split('\n')) {
-				const parts = line.split('\t');
-				if (parts.length >= 2) {
-					const statusCode = parts[0];
-					const filePath = parts[1];
-
-					// Map git status codes to our FileStatus
-					let status: FileStatus = 'unchanged';
-					if (statusCode === 'A') {
-						status = 'added';
-					} else if (statusCode === 'M') {
-						status = 'modified';
-					} else if (statusCode === 'D') {
-						status = 'deleted';
-					}
-
-					changedFiles.set(filePath, status);
-				}
+		for (let i = 0; i + 1 < diffEntries.length; i += 2) {
+			const statusCode = diffEntries[i];
+			const filePath = diffEntries[i + 1];
+
+			// Map git status codes to our FileStatus
+			let status: FileStatus = 'unchanged';
+			if (statusCode === 'A') {
+				status = 'added';
+			} else if (statusCode === 'M') {
+				status = 'modified';
+			} else if (statusCode === 'D') {
+				status = 'deleted';
 			}
-		}
 
-		if (!allFilesOutput) {
-			return [];
+			changedFiles.set(filePath, status);
 		}
 
 		// Build file list: all files from commit with their status
-		const files: FileInfo[] = allFilesOutput.split('\n').map(path => ({
+		const files: FileInfo[] = allFiles.map(path => ({
 			path,
 			status: changedFiles.get(path) || 'unchanged'
 		}));
@@ -1448,7 +1740,7 @@ export class SessionManager {
 	 * @param commitId - Commit hash (or null for working tree)
 	 * @returns Object with original and modified content
 	 */
-	getFileDiff(sessionId: string, filePath: string, commitId: string | null): { original: string; modified: string } {
+	async getFileDiff(sessionId: string, filePath: string, commitId: string | null): Promise<{ original: string; modified: string }> {
 		const session = this.sessions.get(sessionId);
 		if (!session) {
 			throw new Error(`Session ${sessionId} not found`);
@@ -1458,15 +1750,15 @@ export class SessionManager {
 			let original = '';
 			let modified = '';
 
+			if (commitId !== null && !isCommitHash(commitId)) {
+				throw new Error(`Invalid commit: ${commitId}`);
+			}
+
 			if (commitId === null) {
 				// Working tree: compare HEAD vs working directory
 				try {
 					// Get file content from HEAD (using cat-file to preserve line endings)
-					original = execSync(`git cat-file blob HEAD:${filePath}`, {
-						cwd: session.worktreePath,
-						encoding: 'utf8',
-						stdio: 'pipe'
-					});
+					original = await runGit(['cat-file', 'blob', `HEAD:${filePath}`], { cwd: session.worktreePath });
 				} catch (error) {
 					// File might be new (not in HEAD), so original is empty
 					original = '';
@@ -1485,20 +1777,12 @@ export class SessionManager {
 				// Use git rev-list to get parent SHA (avoids ^ which causes issues on Windows cmd)
 				try {
 					// Get parent commit using rev-list (works cross-platform)
-					const parentSha = execSync(`git rev-list --parents -n 1 ${commitId}`, {
-						cwd: session.worktreePath,
-						encoding: 'utf8',
-						stdio: 'pipe'
-					}).trim().split(' ')[1]; // Format: "commit_sha parent_sha"
+					const parentSha = (await runGit(['rev-list', '--parents', '-n', '1', commitId], { cwd: session.worktreePath })).trim().split(' ')[1]; // Format: "commit_sha parent_sha"
 
 					if (parentSha) {
 						try {
 							// Get file content from commit's parent
-							original = execSync(`git cat-file blob ${parentSha}:${filePath}`, {
-								cwd: session.worktreePath,
-								encoding: 'utf8',
-								stdio: 'pipe'
-							});
+							original = await runGit(['cat-file', 'blob', `${parentSha}:${filePath}`], { cwd: session.worktreePath });
 						} catch (error) {
 							// File might be new in this commit, so original is empty
 							original = '';
@@ -1514,11 +1798,7 @@ export class SessionManager {
 
 				try {
 					// Get file content from commit
-					modified = execSync(`git cat-file blob ${commitId}:${filePath}`, {
-						cwd: session.worktreePath,
-						encoding: 'utf8',
-						stdio: 'pipe'
-					});
+					modified = await runGit(['cat-file', 'blob', `${commitId}:${filePath}`], { cwd: session.worktreePath });
 				} catch (error) {
 					// File might be deleted in this commit, so modified is empty
 					modified = '';
@@ -1561,7 +1841,7 @@ export class SessionManager {
 	 * @param filePath - Path to the file relative to worktree
 	 * @throws Error if session not found or discard fails
 	 */
-	discardFile(sessionId: string, filePath: string): void {
+	async discardFile(sessionId: string, filePath: string): Promise<void> {
 		const session = this.sessions.get(sessionId);
 		if (!session) {
 			throw new Error(`Session ${sessionId} not found`);
@@ -1571,17 +1851,11 @@ export class SessionManager {
 			// Use git restore to discard changes (modern git)
 			// This works for both tracked files and staged changes
 			try {
-				execSync(`git restore "${filePath}"`, {
-					cwd: session.worktreePath,
-					stdio: 'pipe'
-				});
+				await runGit(['restore', '--', filePath], { cwd: session.worktreePath });
 				console.log(`Discarded changes to file: ${filePath} in session ${sessionId}`);
 			} catch (restoreError) {
 				// Fallback to git checkout for older git versions
-				execSync(`git checkout -- "${filePath}"`, {
-					cwd: session.worktreePath,
-					stdio: 'pipe'
-				});
+				await runGit(['checkout', '--', filePath], { cwd: session.worktreePath });
 				console.log(`Discarded changes to file: ${filePath} in session ${sessionId} (using checkout)`);
 			}
 		} catch (error: any) {
@@ -1595,7 +1869,7 @@ export class SessionManager {
 	 * @param sessionId - Session identifier
 	 * @returns Success status and optional error message
 	 */
-	discardChanges(sessionId: string): { success: boolean; error?: string } {
+	async discardChanges(sessionId: string): Promise<{ success: boolean; error?: string }> {
 		const session = this.sessions.get(sessionId);
 		if (!session) {
 			return { success: false, error: `Session ${sessionId} not found` };
@@ -1603,15 +1877,9 @@ export class SessionManager {
 
 		try {
 			// Reset to HEAD and clean untracked files
-			execSync('git reset --hard HEAD', {
-				cwd: session.worktreePath,
-				stdio: 'pipe'
-			});
+			await runGit(['reset', '--hard', 'HEAD'], { cwd: session.worktreePath });
 
-			execSync('git clean -fd', {
-				cwd: session.worktreePath,
-				stdio: 'pipe'
-			});
+			await runGit(['clean', '-fd'], { cwd: session.worktreePath });
 
 			console.log(`Discarded changes in session ${sessionId}`);
 			return { success: true };
@@ -1627,7 +1895,7 @@ export class SessionManager {
 	 * @param sessionId - Session identifier
 	 * @returns Success status and optional error message
 	 */
-	resetToBase(sessionId: string): { success: boolean; error?: string } {
+	async resetToBase(sessionId: string): Promise<{ success: boolean; error?: string }> {
 		const session = this.sessions.get(sessionId);
 		if (!session) {
 			return { success: false, error: `Session ${sessionId} not found` };
@@ -1635,10 +1903,7 @@ export class SessionManager {
 
 		try {
 			// Reset to session's base branch
-			execSync(`git reset --hard ${session.baseBranchName}`, {
-				cwd: session.worktreePath,
-				stdio: 'pipe'
-			});
+			await runGit(['reset', '--hard', session.baseBranchName], { cwd: session.worktreePath });
 
 			console.log(`Reset session ${sessionId} to base branch ${session.baseBranchName}`);
 			return { success: true };
@@ -1650,45 +1915,275 @@ export class SessionManager {
 	}
 
 	/**
-	 * Fetch updates from remote repository
-	 * @returns Operation result with success status
+	 * Rebases a session's branch onto its base branch (like /ch-rebase, without resolving conflicts).
+	 * @param sessionId - Session identifier
+	 * @returns Success status; on conflicts the rebase is aborted and the conflicted files are listed
 	 */
-	gitFetch(): { success: boolean; error?: string } {
+	async rebaseOntoBase(sessionId: string): Promise<MergeResult> {
+		const session = this.sessions.get(sessionId);
+		if (!session) {
+			return { success: false, error: `Session ${sessionId} not found` };
+		}
+
 		try {
-			execSync('git fetch --all --prune', {
-				cwd: this.repoRoot,
-				stdio: 'ignore', // Ignore output to prevent pipe buffer deadlock
-				env: {
-					...process.env,
-					GIT_TERMINAL_PROMPT: '0', // Disable terminal credential prompts
-					GIT_ASKPASS: 'echo', // Disable GUI password prompts
-					SSH_ASKPASS: 'echo', // Disable SSH GUI prompts
-					DISPLAY: undefined, // Disable X11 prompts on Unix
-					GIT_SSH_COMMAND: 'ssh -o BatchMode=yes -o StrictHostKeyChecking=no' // Disable all SSH interactive prompts
-				},
-				timeout: 30000 // 30 second timeout
-			});
+			if (await this.hasUncommittedChanges(session)) {
+				return { success: false, error: 'Commit or discard the uncommitted changes before rebasing' };
+			}
+			return await this.runRebase(session, '/ch-rebase');
+		} catch (error: any) {
+			const errorMessage = error.message || String(error);
+			console.error(`Rebase failed for session ${sessionId}:`, errorMessage);
+			return { success: false, error: errorMessage };
+		}
+	}
 
-			console.log(`Fetched updates for repository ${this.repoRoot}`);
+	/**
+	 * Merges a session's branch into its base branch without Claude (the rules of /ch-merge).
+	 * The branch is first prepared according to the merge strategy:
+	 * - fast-forward: rebased onto the base branch
+	 * - squash: rebased onto the base branch, then its commits are combined into one commit
+	 * - merge-commit: moved to a merge commit of the base branch and the branch
+	 * Then the base branch is moved to the branch:
+	 * - Local base branch checked out in a worktree: fast-forward merge in that worktree
+	 * - Local base branch without worktree: the branch ref is moved
+	 * - Remote base branch (e.g. origin/main): the branch is pushed to it
+	 * @param sessionId - Session identifier
+	 * @param strategy - Merge strategy (defaults to the repository's merge strategy)
+	 * @param commitMessage - Message of the squash or merge commit (defaults to the combined commit messages / "Merge branch ...")
+	 * @returns Success status; on failure nothing is changed (the branch is restored if it was already
+	 *          rebased, squashed or merged) and on conflicts the conflicted files are listed
+	 */
+	async mergeIntoBase(sessionId: string, strategy?: MergeStrategy, commitMessage?: string): Promise<MergeResult> {
+		const session = this.sessions.get(sessionId);
+		if (!session) {
+			return { success: false, error: `Session ${sessionId} not found` };
+		}
+		const baseBranch = session.baseBranchName;
+		const mergeStrategy = strategy || await this.getMergeStrategy();
+		let originalHead: string | null = null; // Branch head before it was rewritten for the merge
+
+		try {
+			if (await this.hasUncommittedChanges(session)) {
+				return { success: false, error: 'Commit or discard the uncommitted changes before merging' };
+			}
+			const unmerged = (await runGit(['rev-list', '--count', `${baseBranch}..${session.branchName}`], { cwd: session.worktreePath })).trim();
+			if (parseInt(unmerged, 10) === 0) {
+				return { success: false, error: `${session.branchName} has no commits to merge into ${baseBranch}` };
+			}
+
+			originalHead = (await runGit(['rev-parse', 'HEAD'], { cwd: session.worktreePath })).trim();
+			// Claude resolves conflicts with the same strategy
+			const resolveCommand = `/ch-merge ${mergeStrategy}`;
+			let prepareResult: MergeResult;
+			if (mergeStrategy === 'squash') {
+				prepareResult = await this.runSquash(session, commitMessage?.trim() || buildSquashMessage(await this.getCommitLog(sessionId)), resolveCommand);
+			} else if (mergeStrategy === 'merge-commit') {
+				prepareResult = await this.runMergeCommit(session, commitMessage?.trim() || `Merge branch '${session.branchName}' into ${baseBranch}`, resolveCommand);
+			} else {
+				prepareResult = await this.runRebase(session, resolveCommand);
+			}
+			if (!prepareResult.success) {
+				return prepareResult;
+			}
+
+			await this.fastForwardBase(session);
 			return { success: true };
 		} catch (error: any) {
 			const errorMessage = error.message || String(error);
-			console.error(`Git fetch failed for repository ${this.repoRoot}:`, errorMessage);
+			console.error(`Merge failed for session ${sessionId}:`, errorMessage);
+			if (originalHead) {
+				await this.restoreBranch(session, originalHead);
+			}
+			if (errorMessage.includes('[rejected]') || errorMessage.includes('non-fast-forward')) {
+				return { success: false, error: `${baseBranch} has new commits on the remote. Fetch and merge again.` };
+			}
+			return { success: false, error: describeNetworkError(errorMessage) };
+		}
+	}
+
+	/**
+	 * Puts a session's branch back to a commit after a failed merge. The worktree was clean before
+	 * the merge, so local changes can only come from the merge and are discarded.
+	 */
+	private async restoreBranch(session: SessionInfo, head: string): Promise<void> {
+		try {
+			await tryGit(['rebase', '--abort'], { cwd: session.worktreePath });
+			await tryGit(['merge', '--abort'], { cwd: session.worktreePath });
+			await runGit(['checkout', '--quiet', '--force', '-B', session.branchName, head], { cwd: session.worktreePath });
+			console.log(`Restored ${session.branchName} to ${head}`);
+		} catch (error) {
+			console.error(`Failed to restore ${session.branchName} to ${head}:`, error);
+		}
+	}
+
+	/**
+	 * Moves the base branch of a session to the session's branch, which must contain the base branch.
+	 */
+	private async fastForwardBase(session: SessionInfo): Promise<void> {
+		const baseBranch = session.baseBranchName;
+		if (await this.branchExists(baseBranch)) {
+			const baseWorktree = await this.findWorktreeOfBranch(baseBranch);
+			if (baseWorktree) {
+				await runGit(['merge', '--ff-only', session.branchName], { cwd: baseWorktree });
+				console.log(`Merged ${session.branchName} into ${baseBranch} (fast-forward in ${baseWorktree})`);
+			} else {
+				const head = (await runGit(['rev-parse', session.branchName], { cwd: this.repoRoot })).trim();
+				const oldBase = (await runGit(['rev-parse', `refs/heads/${baseBranch}`], { cwd: this.repoRoot })).trim();
+				await runGit(['update-ref', `refs/heads/${baseBranch}`, head, oldBase], { cwd: this.repoRoot });
+				console.log(`Merged ${session.branchName} into ${baseBranch} (branch moved to ${head})`);
+			}
+			return;
+		}
+
+		const remoteBranch = splitRemoteBranch(baseBranch, await this.listRemotes());
+		if (!remoteBranch) {
+			throw new Error(`Base branch '${baseBranch}' does not exist`);
+		}
+		await runGit(['push', remoteBranch.remote, `${session.branchName}:refs/heads/${remoteBranch.branch}`], {
+			cwd: session.worktreePath,
+			timeout: GIT_NETWORK_TIMEOUT,
+			env: NON_INTERACTIVE_NETWORK_ENV
+		});
+		console.log(`Merged ${session.branchName} into ${baseBranch} (pushed)`);
+	}
+
+	/**
+	 * Rebases a session's branch onto its base branch and combines its commits into one commit.
+	 */
+	private async runSquash(session: SessionInfo, message: string, resolveCommand: string): Promise<MergeResult> {
+		const rebaseResult = await this.runRebase(session, resolveCommand);
+		if (!rebaseResult.success) {
+			return rebaseResult;
+		}
+
+		const rebasedHead = (await runGit(['rev-parse', 'HEAD'], { cwd: session.worktreePath })).trim();
+		await runGit(['reset', '--soft', session.baseBranchName], { cwd: session.worktreePath });
+		try {
+			await runGit(['commit', '-m', message], { cwd: session.worktreePath });
+		} catch (error) {
+			// E.g. a failing commit hook - restore the rebased commits
+			await tryGit(['reset', '--soft', rebasedHead], { cwd: session.worktreePath });
+			throw error;
+		}
+		console.log(`Squashed ${session.branchName} into one commit on top of ${session.baseBranchName}`);
+		return { success: true };
+	}
+
+	/**
+	 * Moves a session's branch to a merge commit of its base branch (first parent) and the branch;
+	 * a merge that stops on conflicts is aborted.
+	 */
+	private async runMergeCommit(session: SessionInfo, message: string, resolveCommand: string): Promise<MergeResult> {
+		await runGit(['checkout', '--quiet', '--detach', session.baseBranchName], { cwd: session.worktreePath });
+		try {
+			await runGit(['merge', '--no-ff', '-m', message, session.branchName], { cwd: session.worktreePath });
+		} catch (error) {
+			const conflicts = await this.listConflicts(session);
+			// Leave the branch as it was before
+			await tryGit(['merge', '--abort'], { cwd: session.worktreePath });
+			await runGit(['checkout', '--quiet', session.branchName], { cwd: session.worktreePath });
 
-			// Check if it's an authentication error
-			if (
-				errorMessage.includes('terminal prompts disabled') ||
-				errorMessage.includes('Authentication failed') ||
-				errorMessage.includes('Permission denied') ||
-				errorMessage.includes('could not read Username')
-			) {
+			if (conflicts.length > 0) {
+				console.log(`Merge of ${session.branchName} into ${session.baseBranchName} aborted, conflicts in: ${conflicts.join(', ')}`);
 				return {
 					success: false,
-					error: 'Authentication required. Please ensure git credentials are configured (SSH key or credential helper).'
+					conflicts,
+					error: `Merging into ${session.baseBranchName} ran into conflicts in ${conflicts.join(', ')}. The merge was aborted - use ${resolveCommand} to let Claude resolve them.`
 				};
 			}
+			throw error;
+		}
 
-			return { success: false, error: errorMessage };
+		await runGit(['checkout', '--quiet', '-B', session.branchName], { cwd: session.worktreePath });
+		console.log(`Created merge commit of ${session.branchName} on top of ${session.baseBranchName}`);
+		return { success: true };
+	}
+
+	/**
+	 * Rebases a session's branch onto its base branch; a rebase that stops on conflicts is aborted.
+	 */
+	private async runRebase(session: SessionInfo, resolveCommand: string): Promise<MergeResult> {
+		try {
+			await runGit(['rebase', session.baseBranchName], { cwd: session.worktreePath });
+			console.log(`Rebased ${session.branchName} onto ${session.baseBranchName}`);
+			return { success: true };
+		} catch (error: any) {
+			const conflicts = await this.listConflicts(session);
+			// Leave the branch as it was before
+			await tryGit(['rebase', '--abort'], { cwd: session.worktreePath });
+
+			if (conflicts.length > 0) {
+				console.log(`Rebase of ${session.branchName} onto ${session.baseBranchName} aborted, conflicts in: ${conflicts.join(', ')}`);
+				return {
+					success: false,
+					conflicts,
+					error: `Rebasing onto ${session.baseBranchName} ran into conflicts in ${conflicts.join(', ')}. The rebase was aborted - use ${resolveCommand} to let Claude resolve them.`
+				};
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Lists the files with conflicts of a stopped rebase or merge.
+	 */
+	private async listConflicts(session: SessionInfo): Promise<string[]> {
+		try {
+			return splitNul(await runGit(['diff', '--name-only', '-z', '--diff-filter=U'], { cwd: session.worktreePath }));
+		} catch (error) {
+			return []; // No rebase or merge in progress
+		}
+	}
+
+	private async hasUncommittedChanges(session: SessionInfo): Promise<boolean> {
+		return (await runGit(['status', '--porcelain'], { cwd: session.worktreePath })).trim().length > 0;
+	}
+
+	/**
+	 * Finds the worktree (main repository or linked worktree) that has a local branch checked out.
+	 * @returns The worktree path, or null if the branch isn't checked out anywhere
+	 */
+	private async findWorktreeOfBranch(branchName: string): Promise<string | null> {
+		const output = await runGit(['worktree', 'list', '--porcelain'], { cwd: this.repoRoot });
+		let worktreePath: string | null = null;
+		for (const line of output.split('\n')) {
+			if (line.startsWith('worktree ')) {
+				worktreePath = line.substring('worktree '.length).trim();
+			} else if (line.trim() === `branch refs/heads/${branchName}`) {
+				return worktreePath;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Lists the paths of all worktrees of the repository (read-only, unlike discoverExistingWorktrees).
+	 */
+	private async listWorktreePaths(): Promise<string[]> {
+		const output = await runGit(['worktree', 'list', '--porcelain'], { cwd: this.repoRoot });
+		return output.split('\n')
+			.filter(line => line.startsWith('worktree '))
+			.map(line => line.substring('worktree '.length).trim());
+	}
+
+	/**
+	 * Fetch updates from remote repository
+	 * @returns Operation result with success status
+	 */
+	async gitFetch(): Promise<{ success: boolean; error?: string }> {
+		try {
+			await runGit(['fetch', '--all', '--prune'], {
+				cwd: this.repoRoot,
+				timeout: GIT_NETWORK_TIMEOUT,
+				env: NON_INTERACTIVE_NETWORK_ENV
+			});
+
+			console.log(`Fetched updates for repository ${this.repoRoot}`);
+			return { success: true };
+		} catch (error: any) {
+			const errorMessage = error.message || String(error);
+			console.error(`Git fetch failed for repository ${this.repoRoot}:`, errorMessage);
+			return { success: false, error: describeNetworkError(errorMessage) };
 		}
 	}
 
@@ -1700,6 +2195,14 @@ export interface SessionInfo {
 	worktreePath: string;
 	baseBranchName: string;
 	baseBranchCommitId: string | null;
+	permissionMode?: PermissionMode; // Set by PtyManager when the agent is spawned
+	recording?: boolean; // Set by PtyManager when the terminal output is recorded
+}
+
+interface DiscoveredWorktree {
+	branchName: string;
+	worktreePath: string;
+	migrateTo?: string; // New location of a worktree in an old location
 }
 
 export interface CommitInfo {
@@ -1720,6 +2223,7 @@ export interface MergeResult {
 	success: boolean;
 	error?: string;
 	conflictsResolved?: boolean;
+	conflicts?: string[]; // Files with conflicts (the rebase was aborted)
 }
 
 export type FileStatus = 'modified' | 'added' | 'deleted' | 'untracked' | 'unchanged' | 'ignored';
@@ -0,0 +1,109 @@
+import { createWriteStream, existsSync, mkdirSync, readdirSync, readFileSync, statSync, type WriteStream } from 'fs';
+import { join, basename } from 'path';
+
+export const RECORDING_EXTENSION = '.cast';
+
+export interface RecordingInfo {
+	id: string; // File name of the recording
+	startedAt: string; // ISO timestamp
+	size: number; // File size in bytes
+}
+
+/**
+ * Records the output of a terminal session to an asciicast v2 file
+ * (https://docs.asciinema.org/manual/asciicast/v2/).
+ *
+ * The file starts with a JSON header line, followed by one JSON event per line:
+ * [seconds since start, "o", output] for output and [seconds, "r", "COLSxROWS"] for resizes.
+ */
+export class SessionRecorder {
+	readonly path: string;
+	private stream: WriteStream;
+	private startTime: number;
+	private closed = false;
+
+	constructor(dir: string, cols: number, rows: number, title: string) {
+		if (!existsSync(dir)) {
+			mkdirSync(dir, { recursive: true });
+		}
+
+		const startedAt = new Date();
+		this.startTime = startedAt.getTime();
+		// Timestamp in the file name keeps recordings sorted and unique per session start
+		this.path = join(dir, `${startedAt.toISOString().replace(/[:.]/g, '-')}${RECORDING_EXTENSION}`);
+		this.stream = createWriteStream(this.path, { flags: 'a' });
+		this.stream.on('error', (error) => {
+			console.error(`[session-recorder] Failed to write ${this.path}:`, error);
+			this.closed = true;
+		});
+
+		this.writeLine({
+			version: 2,
+			width: cols,
+			height: rows,
+			timestamp: Math.floor(this.startTime / 1000),
+			title,
+			env: { TERM: 'xterm-256color' }
+		});
+		console.log(`[session-recorder] Recording to ${this.path}`);
+	}
+
+	writeOutput(data: string): void {
+		this.writeEvent('o', data);
+	}
+
+	writeResize(cols: number, rows: number): void {
+		this.writeEvent('r', `${cols}x${rows}`);
+	}
+
+	close(): void {
+		if (!this.closed) {
+			this.closed = true;
+			this.stream.end();
+		}
+	}
+
+	private writeEvent(code: 'o' | 'r', data: string): void {
+		const elapsed = (Date.now() - this.startTime) / 1000;
+		this.writeLine([Number(elapsed.toFixed(6)), code, data]);
+	}
+
+	private writeLine(value: unknown): void {
+		if (!this.closed) {
+			this.stream.write(JSON.stringify(value) + '\n');
+		}
+	}
+}
+
+/**
+ * Lists the recordings in a directory, newest first.
+ */
+export function listRecordings(dir: string): RecordingInfo[] {
+	if (!existsSync(dir)) {
+		return [];
+	}
+
+	return readdirSync(dir)
+		.filter(name => name.endsWith(RECORDING_EXTENSION))
+		.map(name => {
+			const stats = statSync(join(dir, name));
+			// Not every filesystem records the creation time
+			const startedAt = stats.birthtimeMs > 0 ? stats.birthtime : stats.mtime;
+			return { id: name, startedAt: startedAt.toISOString(), size: stats.size };
+		})
+		.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+/**
+ * Reads a recording from a directory.
+ * @param id - File name of the recording (as returned by listRecordings)
+ * @returns The asciicast content, or null if the recording doesn't exist
+ */
+export function readRecording(dir: string, id: string): string | null {
+	// Only plain file names are accepted, so a client can't read files outside the directory
+	if (basename(id) !== id || !id.endsWith(RECORDING_EXTENSION)) {
+		return null;
+	}
+	const path = join(dir, id);
+	return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+}
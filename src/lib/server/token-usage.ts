@@ -0,0 +1,258 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { open, readdir, stat } from 'fs/promises';
+import { homedir } from 'os';
+import { join, sep } from 'path';
+
+/**
+ * Token usage and estimated cost of the Claude sessions of a worktree.
+ *
+ * Claude writes a transcript (JSONL) per conversation to ~/.claude/projects/<project>/, where
+ * <project> is the worktree path with every non-alphanumeric character replaced by "-". Each
+ * assistant message carries the token usage of its API request. Transcripts are read
+ * incrementally (only lines appended since the last read), and the daily totals are saved
+ * to ~/.claude-hydra/usage-history.json.
+ */
+
+export const TOKEN_USAGE_INTERVAL = 30000; // How often transcripts are re-read (ms)
+
+export interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+	cacheCreationTokens: number;
+	cacheReadTokens: number;
+	costUsd: number; // Estimated from API list prices
+}
+
+export interface WorktreeUsage {
+	total: TokenUsage;
+	today: TokenUsage;
+	daily: Map<string, TokenUsage>; // Local date (YYYY-MM-DD) -> usage
+}
+
+interface MessageUsage {
+	day: string;
+	usage: TokenUsage;
+}
+
+interface TranscriptFile {
+	offset: number; // Bytes read so far
+	partialLine: string; // Incomplete last line (still being written)
+	messages: Map<string, MessageUsage>; // Keyed by message id + request id
+}
+
+// API list prices in USD per million tokens. Cache writes cost 1.25x and cache reads 0.1x the input price.
+const MODEL_PRICES: Array<{ pattern: RegExp; input: number; output: number }> = [
+	{ pattern: /opus-4-[5-9]|opus-[5-9]/, input: 5, output: 25 },
+	{ pattern: /opus/, input: 15, output: 75 },
+	{ pattern: /sonnet/, input: 3, output: 15 },
+	{ pattern: /haiku-4-[5-9]|haiku-[5-9]/, input: 1, output: 5 },
+	{ pattern: /haiku/, input: 0.8, output: 4 }
+];
+const DEFAULT_PRICE = { input: 3, output: 15 };
+
+const READ_CHUNK_SIZE = 4 * 1024 * 1024;
+
+const HISTORY_PATH = join(homedir(), '.claude-hydra', 'usage-history.json');
+
+export function emptyUsage(): TokenUsage {
+	return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, costUsd: 0 };
+}
+
+export function addUsage(target: TokenUsage, usage: TokenUsage): void {
+	target.inputTokens += usage.inputTokens;
+	target.outputTokens += usage.outputTokens;
+	target.cacheCreationTokens += usage.cacheCreationTokens;
+	target.cacheReadTokens += usage.cacheReadTokens;
+	target.costUsd += usage.costUsd;
+}
+
+/**
+ * Gets the directory in which Claude keeps the transcripts of a worktree.
+ */
+export function getTranscriptDir(worktreePath: string): string {
+	return join(homedir(), '.claude', 'projects', worktreePath.replace(/[^a-zA-Z0-9]/g, '-'));
+}
+
+function toLocalDay(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Extracts the usage of an assistant message from a transcript line.
+ * @returns The message key and usage, or null for other lines
+ */
+function parseTranscriptLine(line: string): { key: string; message: MessageUsage } | null {
+	let entry: any;
+	try {
+		entry = JSON.parse(line);
+	} catch {
+		return null;
+	}
+	const usage = entry?.message?.usage;
+	if (entry?.type !== 'assistant' || !usage) {
+		return null;
+	}
+
+	const model: string = entry.message.model || '';
+	const price = MODEL_PRICES.find(candidate => candidate.pattern.test(model)) || DEFAULT_PRICE;
+	const inputTokens = usage.input_tokens || 0;
+	const outputTokens = usage.output_tokens || 0;
+	const cacheCreationTokens = usage.cache_creation_input_tokens || 0;
+	const cacheReadTokens = usage.cache_read_input_tokens || 0;
+	const costUsd = (inputTokens * price.input
+		+ cacheCreationTokens * price.input * 1.25
+		+ cacheReadTokens * price.input * 0.1
+		+ outputTokens * price.output) / 1000000;
+
+	// A message with several content blocks is written as several lines with the same usage
+	const key = `${entry.message.id || entry.uuid}:${entry.requestId || ''}`;
+	const timestamp = entry.timestamp ? new Date(entry.timestamp) : new Date();
+	return {
+		key,
+		message: {
+			day: toLocalDay(isNaN(timestamp.getTime()) ? new Date() : timestamp),
+			usage: { inputTokens, outputTokens, cacheCreationTokens, cacheReadTokens, costUsd }
+		}
+	};
+}
+
+/**
+ * Finds the transcripts in a project directory (including those of subagents in subdirectories).
+ */
+async function findTranscripts(dir: string, depth = 0): Promise<string[]> {
+	const files: string[] = [];
+	let entries;
+	try {
+		entries = await readdir(dir, { withFileTypes: true });
+	} catch {
+		return files;
+	}
+	for (const entry of entries) {
+		const path = join(dir, entry.name);
+		if (entry.isFile() && entry.name.endsWith('.jsonl')) {
+			files.push(path);
+		} else if (entry.isDirectory() && depth < 2) {
+			files.push(...await findTranscripts(path, depth + 1));
+		}
+	}
+	return files;
+}
+
+export class TokenUsageTracker {
+	private transcripts = new Map<string, TranscriptFile>(); // Transcript path -> read state
+
+	/**
+	 * Reads new transcript lines of a worktree and returns its usage.
+	 */
+	async getWorktreeUsage(worktreePath: string): Promise<WorktreeUsage> {
+		// Resumed conversations can repeat messages in a new transcript - count each message once
+		const messages = new Map<string, MessageUsage>();
+		for (const path of await findTranscripts(getTranscriptDir(worktreePath))) {
+			const transcript = await this.readTranscript(path);
+			for (const [key, message] of transcript.messages) {
+				messages.set(key, message);
+			}
+		}
+
+		const today = toLocalDay(new Date());
+		const result: WorktreeUsage = { total: emptyUsage(), today: emptyUsage(), daily: new Map() };
+		for (const { day, usage } of messages.values()) {
+			addUsage(result.total, usage);
+			if (day === today) {
+				addUsage(result.today, usage);
+			}
+			let dailyUsage = result.daily.get(day);
+			if (!dailyUsage) {
+				dailyUsage = emptyUsage();
+				result.daily.set(day, dailyUsage);
+			}
+			addUsage(dailyUsage, usage);
+		}
+		return result;
+	}
+
+	private async readTranscript(path: string): Promise<TranscriptFile> {
+		let transcript = this.transcripts.get(path);
+		const size = (await stat(path)).size;
+		if (!transcript || size < transcript.offset) {
+			// New or rewritten transcript
+			transcript = { offset: 0, partialLine: '', messages: new Map() };
+			this.transcripts.set(path, transcript);
+		}
+		if (size === transcript.offset) {
+			return transcript;
+		}
+
+		const file = await open(path, 'r');
+		try {
+			const buffer = Buffer.alloc(Math.min(size - transcript.offset, READ_CHUNK_SIZE));
+			while (transcript.offset < size) {
+				const { bytesRead } = await file.read(buffer, 0, Math.min(buffer.length, size - transcript.offset), transcript.offset);
+				if (bytesRead === 0) {
+					break;
+				}
+				transcript.offset += bytesRead;
+
+				// Lines can be split between chunks (also multi-byte characters, which only occur inside lines)
+				const lines = (transcript.partialLine + buffer.toString('latin1', 0, bytesRead)).split('\n');
+				transcript.partialLine = lines.pop() || '';
+				for (const line of lines) {
+					const parsed = line.trim() ? parseTranscriptLine(Buffer.from(line, 'latin1').toString('utf8')) : null;
+					if (parsed) {
+						transcript.messages.set(parsed.key, parsed.message);
+					}
+				}
+			}
+		} finally {
+			await file.close();
+		}
+		return transcript;
+	}
+
+	/**
+	 * Forgets the read state of a worktree's transcripts (e.g. after its session was closed).
+	 */
+	forgetWorktree(worktreePath: string): void {
+		const dir = getTranscriptDir(worktreePath);
+		for (const path of this.transcripts.keys()) {
+			if (path.startsWith(dir + sep)) {
+				this.transcripts.delete(path);
+			}
+		}
+	}
+}
+
+type UsageHistory = Record<string, Record<string, Record<string, TokenUsage>>>; // day -> repository -> branch -> usage
+
+/**
+ * Saves the daily usage of branches to ~/.claude-hydra/usage-history.json.
+ * Entries of other branches and days are kept, so the history outlives closed worktrees.
+ * @param branches - Daily usage per branch of a repository
+ */
+export function saveUsageHistory(repoRoot: string, branches: Map<string, Map<string, TokenUsage>>): void {
+	let history: UsageHistory = {};
+	try {
+		if (existsSync(HISTORY_PATH)) {
+			history = JSON.parse(readFileSync(HISTORY_PATH, 'utf8'));
+		}
+	} catch (error) {
+		console.error('[token-usage] Failed to read usage history, starting a new one:', error);
+	}
+
+	for (const [branchName, daily] of branches) {
+		for (const [day, usage] of daily) {
+			history[day] ??= {};
+			history[day][repoRoot] ??= {};
+			history[day][repoRoot][branchName] = usage;
+		}
+	}
+
+	try {
+		mkdirSync(join(homedir(), '.claude-hydra'), { recursive: true });
+		writeFileSync(HISTORY_PATH, JSON.stringify(history, null, 2));
+	} catch (error) {
+		console.error('[token-usage] Failed to save usage history:', error);
+	}
+}
@@ -0,0 +1,114 @@
+import { isAbsolute, relative } from 'path';
+
+/**
+ * What Claude is doing, derived from the payloads of its hooks (update-state.js forwards
+ * them to the set-state endpoint). Each tab shows these entries as activity timeline.
+ */
+
+export type ActivityKind = 'prompt' | 'tool' | 'stop' | 'notification';
+
+export interface ActivityEntry {
+	timestamp: number; // Milliseconds since epoch
+	kind: ActivityKind;
+	tool?: string; // Tool name for kind 'tool' (e.g. "Edit", "Bash")
+	summary: string; // Single line, e.g. "Edit src/foo.ts" or "Bash: npm test"
+}
+
+/**
+ * The fields of a Claude hook payload that update-state.js forwards
+ */
+export interface HookPayload {
+	hook_event_name?: string;
+	tool_name?: string;
+	tool_input?: Record<string, unknown>;
+	prompt?: string;
+	message?: string;
+}
+
+export const ACTIVITY_HISTORY_LENGTH = 200; // Entries kept per branch
+
+const MAX_SUMMARY_LENGTH = 200;
+
+/**
+ * Shortens text to its first line and at most MAX_SUMMARY_LENGTH characters.
+ */
+function toSummaryLine(text: string): string {
+	const lines = text.trim().split(/\r?\n/);
+	let line = lines[0];
+	if (line.length > MAX_SUMMARY_LENGTH) {
+		line = line.substring(0, MAX_SUMMARY_LENGTH - 1) + '…';
+	} else if (lines.length > 1) {
+		line += ' …';
+	}
+	return line;
+}
+
+/**
+ * Shows paths inside the worktree relative to it (with forward slashes).
+ */
+function displayPath(path: string, worktreePath: string): string {
+	if (!isAbsolute(path)) {
+		return path;
+	}
+	const relativePath = relative(worktreePath, path);
+	if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+		return path;
+	}
+	return relativePath.replace(/\\/g, '/');
+}
+
+function describeToolUse(tool: string, input: Record<string, unknown>, worktreePath: string): string {
+	const text = (key: string): string => typeof input[key] === 'string' ? input[key] as string : '';
+
+	switch (tool) {
+		case 'Read':
+		case 'Edit':
+		case 'MultiEdit':
+		case 'Write':
+			return text('file_path') ? `${tool} ${displayPath(text('file_path'), worktreePath)}` : tool;
+		case 'NotebookEdit':
+			return text('notebook_path') ? `${tool} ${displayPath(text('notebook_path'), worktreePath)}` : tool;
+		case 'Bash':
+			return text('command') ? `Bash: ${text('command')}` : tool;
+		case 'Grep':
+		case 'Glob':
+			return text('pattern') ? `${tool}: ${text('pattern')}` : tool;
+		case 'WebFetch':
+			return text('url') ? `WebFetch: ${text('url')}` : tool;
+		case 'WebSearch':
+			return text('query') ? `WebSearch: ${text('query')}` : tool;
+		case 'Task':
+			return text('description') ? `Task: ${text('description')}` : tool;
+		case 'TodoWrite':
+			return 'Update todo list';
+		default:
+			return tool;
+	}
+}
+
+/**
+ * Turns a hook payload into an activity entry.
+ * @param worktreePath - Worktree of the session (file paths are shown relative to it)
+ * @returns The entry, or null for events that are not shown
+ */
+export function describeHookPayload(payload: HookPayload, worktreePath: string): ActivityEntry | null {
+	const timestamp = Date.now();
+
+	switch (payload.hook_event_name) {
+		case 'PreToolUse': {
+			if (!payload.tool_name) {
+				return null;
+			}
+			const summary = describeToolUse(payload.tool_name, payload.tool_input || {}, worktreePath);
+			return { timestamp, kind: 'tool', tool: payload.tool_name, summary: toSummaryLine(summary) };
+		}
+		case 'UserPromptSubmit':
+			return { timestamp, kind: 'prompt', summary: toSummaryLine(`Prompt: ${payload.prompt || ''}`) };
+		case 'Stop':
+			return { timestamp, kind: 'stop', summary: 'Finished' };
+		case 'Notification':
+			return { timestamp, kind: 'notification', summary: toSummaryLine(payload.message || 'Notification') };
+		default:
+			return null;
+	}
+}
@@ -0,0 +1,134 @@
+import { existsSync, readdirSync, statSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { getTranscriptDir } from './token-usage';
+
+/**
+ * Structured view of Claude's conversation transcripts (~/.claude/projects/<project>/<id>.jsonl,
+ * see token-usage.ts). Each line is a user or assistant message; tool calls are content
+ * blocks of assistant messages and their results are content blocks of the next user message.
+ */
+
+export interface TranscriptInfo {
+	id: string; // File name of the transcript
+	modifiedAt: string; // ISO timestamp of the last write
+	size: number;
+}
+
+export type TranscriptMessage =
+	| { kind: 'user'; timestamp: string; text: string }
+	| { kind: 'assistant'; timestamp: string; text: string }
+	| { kind: 'tool'; timestamp: string; id: string; name: string; input: string; output?: string; isError?: boolean };
+
+const TRANSCRIPT_EXTENSION = '.jsonl';
+const MAX_TOOL_TEXT_LENGTH = 20000; // Tool inputs and outputs are cut off after this many characters
+
+/**
+ * Lists the transcripts of a worktree, most recently written first.
+ * Transcripts of subagents (in subdirectories) are not listed.
+ */
+export function listTranscripts(worktreePath: string): TranscriptInfo[] {
+	const dir = getTranscriptDir(worktreePath);
+	if (!existsSync(dir)) {
+		return [];
+	}
+
+	return readdirSync(dir, { withFileTypes: true })
+		.filter(entry => entry.isFile() && entry.name.endsWith(TRANSCRIPT_EXTENSION))
+		.map(entry => {
+			const stats = statSync(join(dir, entry.name));
+			return { id: entry.name, modifiedAt: stats.mtime.toISOString(), size: stats.size };
+		})
+		.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
+}
+
+function truncate(text: string): string {
+	return text.length > MAX_TOOL_TEXT_LENGTH
+		? `${text.substring(0, MAX_TOOL_TEXT_LENGTH)}\n… (${text.length - MAX_TOOL_TEXT_LENGTH} more characters)`
+		: text;
+}
+
+/**
+ * Gets the text of a content block list (text blocks only, images are shown as placeholder).
+ */
+function contentToText(content: unknown): string {
+	if (typeof content === 'string') {
+		return content;
+	}
+	if (!Array.isArray(content)) {
+		return '';
+	}
+	return content
+		.map((block: any) => block?.type === 'text' ? block.text : block?.type === 'image' ? '[image]' : '')
+		.filter(text => text)
+		.join('\n');
+}
+
+/**
+ * Reads a transcript of a worktree.
+ * @param id - File name of the transcript (as returned by listTranscripts)
+ * @returns The messages in order, or null if the transcript doesn't exist
+ */
+export async function readTranscript(worktreePath: string, id: string): Promise<TranscriptMessage[] | null> {
+	// Only plain file names are accepted, so a client can't read files outside the directory
+	if (basename(id) !== id || !id.endsWith(TRANSCRIPT_EXTENSION)) {
+		return null;
+	}
+	const path = join(getTranscriptDir(worktreePath), id);
+	if (!existsSync(path)) {
+		return null;
+	}
+
+	const messages: TranscriptMessage[] = [];
+	const toolCalls = new Map<string, TranscriptMessage & { kind: 'tool' }>(); // Tool use id -> call (to attach its result)
+
+	for (const line of (await readFile(path, 'utf-8')).split('\n')) {
+		let entry: any;
+		try {
+			entry = line.trim() ? JSON.parse(line) : null;
+		} catch {
+			continue; // The last line may be incomplete while Claude is writing it
+		}
+		// Meta messages (e.g. command caveats) and subagent conversations are not part of the visible conversation
+		if (!entry || entry.isMeta || entry.isSidechain || !entry.message) {
+			continue;
+		}
+		const timestamp: string = entry.timestamp || '';
+		const content = entry.message.content;
+
+		if (entry.type === 'user') {
+			if (typeof content === 'string') {
+				messages.push({ kind: 'user', timestamp, text: content });
+				continue;
+			}
+			for (const block of Array.isArray(content) ? content : []) {
+				if (block?.type === 'tool_result') {
+					const call = toolCalls.get(block.tool_use_id);
+					if (call) {
+						call.output = truncate(contentToText(block.content));
+						call.isError = !!block.is_error;
+					}
+				} else if (block?.type === 'text' && block.text) {
+					messages.push({ kind: 'user', timestamp, text: block.text });
+				}
+			}
+		} else if (entry.type === 'assistant') {
+			for (const block of Array.isArray(content) ? content : []) {
+				if (block?.type === 'text' && block.text?.trim()) {
+					messages.push({ kind: 'assistant', timestamp, text: block.text });
+				} else if (block?.type === 'tool_use') {
+					const call: TranscriptMessage & { kind: 'tool' } = {
+						kind: 'tool',
+						timestamp,
+						id: block.id,
+						name: block.name,
+						input: truncate(JSON.stringify(block.input ?? {}, null, 2))
+					};
+					toolCalls.set(block.id, call);
+					messages.push(call);
+				}
+			}
+		}
+	}
+	return messages;
+}
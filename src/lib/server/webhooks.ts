@@ -0,0 +1,171 @@
+import { existsSync, readFileSync, appendFileSync, statSync, renameSync, mkdirSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { createHmac } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositoryRegistry } from './session-manager-instance';
+
+/**
+ * Outbound webhooks: POSTs session events of a repository as JSON to the URLs configured in
+ * .claude-hydra.webhooks.json. Deliveries run in the background, are retried with exponential
+ * backoff and every attempt is appended to a delivery log.
+ */
+
+export type WebhookEvent = 'session.ready' | 'session.attention' | 'session.merged' | 'session.closed' | 'autoinit.failed';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['session.ready', 'session.attention', 'session.merged', 'session.closed', 'autoinit.failed'];
+
+export const WEBHOOKS_FILE = '.claude-hydra.webhooks.json';
+
+export interface WebhookConfig {
+	url: string;
+	events: WebhookEvent[]; // Events sent to this URL
+	secret: string | null; // Key of the HMAC-SHA256 signature (null = unsigned)
+}
+
+export interface WebhookPayload {
+	id: string; // Delivery id (the same for all attempts)
+	event: WebhookEvent;
+	timestamp: string; // ISO timestamp of the event
+	repository: { path: string; name: string };
+	branch: string;
+	data: Record<string, unknown>; // Event details
+}
+
+const MAX_ATTEMPTS = 5;
+const FIRST_RETRY_DELAY = 1000; // Doubles with every attempt (1s, 2s, 4s, 8s)
+const REQUEST_TIMEOUT = 10000;
+const MAX_LOG_SIZE = 1024 * 1024; // The log is rotated to <log>.1 when it gets bigger
+
+/**
+ * Reads the webhooks of a repository from .claude-hydra.webhooks.json.
+ *
+ * Format: { "webhooks": [{ "url": "...", "events": ["session.ready", ...], "secret": "...", "secretEnv": "VAR" }] }
+ * "events" defaults to all events. The secret can be given directly or as name of an
+ * environment variable (so it doesn't need to be committed). Invalid entries are skipped.
+ * @param repoRoot - Root directory of the main repository
+ */
+export function readWebhookConfig(repoRoot: string): WebhookConfig[] {
+	const configPath = join(repoRoot, WEBHOOKS_FILE);
+	if (!existsSync(configPath)) {
+		return [];
+	}
+
+	const webhooks: WebhookConfig[] = [];
+	try {
+		const config = JSON.parse(readFileSync(configPath, 'utf-8'));
+		for (const entry of Array.isArray(config.webhooks) ? config.webhooks : []) {
+			if (!entry || typeof entry.url !== 'string' || !/^https?:\/\//.test(entry.url)) {
+				console.error(`[webhooks] Skipping webhook without http(s) "url" in ${WEBHOOKS_FILE}`);
+				continue;
+			}
+			const events = Array.isArray(entry.events)
+				? entry.events.filter((event: unknown): event is WebhookEvent => WEBHOOK_EVENTS.includes(event as WebhookEvent))
+				: WEBHOOK_EVENTS;
+			const secret = typeof entry.secretEnv === 'string'
+				? process.env[entry.secretEnv] || null
+				: typeof entry.secret === 'string' ? entry.secret : null;
+			if (typeof entry.secretEnv === 'string' && !secret) {
+				console.error(`[webhooks] Environment variable ${entry.secretEnv} is not set - deliveries to ${entry.url} are unsigned`);
+			}
+			webhooks.push({ url: entry.url, events, secret });
+		}
+	} catch (error) {
+		console.error(`Failed to read ${WEBHOOKS_FILE}:`, error);
+	}
+	return webhooks;
+}
+
+/**
+ * Signs a request body (sent as "X-Claude-Hydra-Signature: sha256=<hex>").
+ */
+export function signPayload(body: string, secret: string): string {
+	return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function appendToLog(logPath: string, record: Record<string, unknown>): void {
+	try {
+		mkdirSync(dirname(logPath), { recursive: true });
+		if (existsSync(logPath) && statSync(logPath).size > MAX_LOG_SIZE) {
+			renameSync(logPath, `${logPath}.1`);
+		}
+		appendFileSync(logPath, JSON.stringify(record) + '\n');
+	} catch (error) {
+		console.error('[webhooks] Failed to write delivery log:', error);
+	}
+}
+
+/**
+ * Sends a payload to a webhook, retrying network errors, timeouts, 429 and 5xx responses.
+ */
+async function deliver(webhook: WebhookConfig, payload: WebhookPayload, logPath: string): Promise<void> {
+	const body = JSON.stringify(payload);
+	const headers: Record<string, string> = {
+		'Content-Type': 'application/json',
+		'User-Agent': 'claude-hydra',
+		'X-Claude-Hydra-Event': payload.event,
+		'X-Claude-Hydra-Delivery': payload.id
+	};
+	if (webhook.secret) {
+		headers['X-Claude-Hydra-Signature'] = signPayload(body, webhook.secret);
+	}
+
+	for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+		let status: number | null = null;
+		let error: string | null = null;
+		try {
+			const response = await fetch(webhook.url, { method: 'POST', headers, body, signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+			status = response.status;
+			await response.arrayBuffer().catch(() => undefined); // Release the connection
+		} catch (fetchError: any) {
+			error = fetchError?.name === 'TimeoutError' ? `Timed out after ${REQUEST_TIMEOUT / 1000}s` : String(fetchError?.cause?.message || fetchError?.message || fetchError);
+		}
+
+		const delivered = status !== null && status >= 200 && status < 300;
+		const retry = !delivered && attempt < MAX_ATTEMPTS && (status === null || status === 429 || status >= 500);
+		appendToLog(logPath, {
+			timestamp: new Date().toISOString(),
+			delivery: payload.id,
+			event: payload.event,
+			branch: payload.branch,
+			url: webhook.url,
+			attempt,
+			status,
+			error,
+			result: delivered ? 'delivered' : retry ? 'retrying' : 'failed'
+		});
+
+		if (!retry) {
+			if (!delivered) {
+				console.error(`[webhooks] Delivery of ${payload.event} to ${webhook.url} failed: ${error || `HTTP ${status}`}`);
+			}
+			return;
+		}
+		await new Promise(resolve => setTimeout(resolve, FIRST_RETRY_DELAY * 2 ** (attempt - 1)));
+	}
+}
+
+/**
+ * Sends an event of a branch to the webhooks of its repository (in the background).
+ * @param data - Event details added to the payload
+ */
+export function dispatchWebhookEvent(repoHash: string, branchName: string, event: WebhookEvent, data: Record<string, unknown> = {}): void {
+	const sessionManager = getRepositoryRegistry().getRepositoryByRepoHash(repoHash);
+	if (!sessionManager) {
+		return;
+	}
+	const repoPath = sessionManager.getRepoPath();
+	const webhooks = readWebhookConfig(repoPath).filter(webhook => webhook.events.includes(event));
+
+	for (const webhook of webhooks) {
+		const payload: WebhookPayload = {
+			id: uuidv4(),
+			event,
+			timestamp: new Date().toISOString(),
+			repository: { path: repoPath, name: basename(repoPath) },
+			branch: branchName,
+			data
+		};
+		deliver(webhook, payload, sessionManager.getWebhookLogPath())
+			.catch(error => console.error(`[webhooks] Delivery of ${event} to ${webhook.url} failed:`, error));
+	}
+}
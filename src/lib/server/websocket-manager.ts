@@ -1,16 +1,41 @@
 import type { WebSocket } from 'ws';
 import type { GitStatus, SessionInfo, CommitInfo } from './session-manager';
+import type { ResourceSample } from './resource-monitor';
+import { type ActivityEntry, ACTIVITY_HISTORY_LENGTH } from './tool-activity';
+import type { TokenUsage } from './token-usage';
 import { getRepositoryRegistry } from './session-manager-instance';
+import { dispatchWebhookEvent } from './webhooks';
 
 // Persist branchConnections across HMR reloads
 declare global {
 	var __branchConnections: Map<string, WebSocket> | null;
+	var __branchUiStates: Map<string, BranchUiState> | null;
+}
+
+// queued: the prompt waits for the limit of running sessions
+// attention: Claude is blocked on a permission prompt or question until the user answers
+export type SessionState = 'ready' | 'running' | 'queued' | 'attention';
+
+/**
+ * Last UI-relevant state pushed to a branch. Recorded even while no client is
+ * connected, so that a client which attaches later can be brought up to date.
+ */
+interface BranchUiState {
+	state: SessionState;
+	queuePosition?: number; // Position in the run queue while queued
+	waituser?: { text: string; commandline: string };
+	openurl?: { url: string; instructions: string; hidden: boolean };
+	activity?: ActivityEntry[]; // Latest hook activity, oldest first
 }
 
 // Map "repoHash:branchName" to WebSocket connection for unique tab identification
 const branchConnections = globalThis.__branchConnections || new Map<string, WebSocket>();
 globalThis.__branchConnections = branchConnections;
 
+// Map "repoHash:branchName" to the last state/pending prompts sent to that branch
+const branchUiStates = globalThis.__branchUiStates || new Map<string, BranchUiState>();
+globalThis.__branchUiStates = branchUiStates;
+
 /**
  * Creates a unique connection key from repoHash and branchName
  */
@@ -23,16 +48,99 @@ export function registerConnection(repoHash: string, branchName: string, ws: Web
 	branchConnections.set(key, ws);
 }
 
-export function unregisterConnection(repoHash: string, branchName: string) {
+export function unregisterConnection(repoHash: string, branchName: string, ws?: WebSocket) {
 	const key = makeConnectionKey(repoHash, branchName);
+	// Don't remove a newer connection that took over this branch (e.g. after a reattach)
+	if (ws && branchConnections.get(key) !== ws) {
+		return;
+	}
 	branchConnections.delete(key);
 }
 
-export function sendStateUpdate(repoHash: string, branchName: string, state: 'ready' | 'running'): boolean {
+function getBranchUiState(key: string): BranchUiState {
+	let uiState = branchUiStates.get(key);
+	if (!uiState) {
+		// New sessions start with Claude running
+		uiState = { state: 'running' };
+		branchUiStates.set(key, uiState);
+	}
+	return uiState;
+}
+
+/**
+ * Forgets the recorded state and pending prompts of a branch (e.g. when a fresh session is started)
+ */
+export function clearBranchUiState(repoHash: string, branchName: string): void {
+	branchUiStates.delete(makeConnectionKey(repoHash, branchName));
+}
+
+/**
+ * Marks the pending waituser/openurl prompt of a branch as handled so it is not re-sent on attach
+ */
+export function clearPendingPrompt(repoHash: string, branchName: string, prompt: 'waituser' | 'openurl'): void {
+	const uiState = branchUiStates.get(makeConnectionKey(repoHash, branchName));
+	if (uiState) {
+		delete uiState[prompt];
+	}
+}
+
+/**
+ * Takes the command line of the pending waituser prompt of a branch (marking the prompt as handled)
+ * @returns The command line requested by Claude, or undefined if no waituser prompt is pending
+ */
+export function takePendingWaituserCommand(repoHash: string, branchName: string): string | undefined {
+	const uiState = branchUiStates.get(makeConnectionKey(repoHash, branchName));
+	const commandline = uiState?.waituser?.commandline;
+	if (uiState) {
+		delete uiState.waituser;
+	}
+	return commandline;
+}
+
+/**
+ * Sends the recorded state and pending prompts of a branch to its (newly attached) connection
+ */
+export function sendBranchUiSnapshot(repoHash: string, branchName: string): boolean {
 	const key = makeConnectionKey(repoHash, branchName);
+	const ws = branchConnections.get(key);
+	if (!ws || ws.readyState !== ws.OPEN) {
+		return false;
+	}
+	const uiState = getBranchUiState(key);
+	ws.send(JSON.stringify({ type: 'state', state: uiState.state, queuePosition: uiState.queuePosition }));
+	if (uiState.waituser) {
+		ws.send(JSON.stringify({ type: 'waituser', ...uiState.waituser }));
+	}
+	if (uiState.openurl) {
+		ws.send(JSON.stringify({ type: 'openurl', ...uiState.openurl }));
+	}
+	ws.send(JSON.stringify({ type: 'activityLog', entries: uiState.activity || [] }));
+	return true;
+}
+
+/**
+ * Gets the last state pushed to a branch ('running' until Claude reported being ready)
+ */
+export function getBranchState(repoHash: string, branchName: string): SessionState {
+	return branchUiStates.get(makeConnectionKey(repoHash, branchName))?.state || 'running';
+}
+
+export function sendStateUpdate(repoHash: string, branchName: string, state: SessionState, queuePosition?: number): boolean {
+	const key = makeConnectionKey(repoHash, branchName);
+	const uiState = getBranchUiState(key);
+	const previousState = uiState.state;
+	uiState.state = state;
+	uiState.queuePosition = queuePosition;
+
+	// Report changes to ready/needs attention to the repository's webhooks (also without a connected client)
+	if (state !== previousState && (state === 'ready' || state === 'attention')) {
+		const lastActivity = uiState.activity?.[uiState.activity.length - 1];
+		dispatchWebhookEvent(repoHash, branchName, state === 'ready' ? 'session.ready' : 'session.attention', { lastActivity: lastActivity?.summary });
+	}
+
 	const ws = branchConnections.get(key);
 	if (ws && ws.readyState === ws.OPEN) {
-		ws.send(JSON.stringify({ type: 'state', state }));
+		ws.send(JSON.stringify({ type: 'state', state, queuePosition }));
 		return true;
 	}
 	return false;
@@ -52,10 +160,10 @@ export function sendGitBranchStatus(repoHash: string, branchName: string, gitSta
 	return false;
 }
 
-export function broadcastGitStatusToAll(repoHash: string, sessions: Map<string, SessionInfo>, getGitStatus: (sessionId: string) => GitStatus): void {
+export async function broadcastGitStatusToAll(repoHash: string, sessions: Map<string, SessionInfo>, getGitStatus: (sessionId: string) => Promise<GitStatus>): Promise<void> {
 	for (const [sessionId, session] of sessions) {
 		try {
-			const gitStatus = getGitStatus(sessionId);
+			const gitStatus = await getGitStatus(sessionId);
 			sendGitBranchStatus(repoHash, session.branchName, gitStatus);
 		} catch (error) {
 			console.error(`Failed to broadcast git status for session ${sessionId}:`, error);
@@ -63,7 +171,7 @@ export function broadcastGitStatusToAll(repoHash: string, sessions: Map<string,
 	}
 }
 
-export function sendReadyStateWithGitStatus(repoHash: string, branchName: string): boolean {
+export async function sendReadyStateWithGitStatus(repoHash: string, branchName: string): Promise<boolean> {
 	// Send state update
 	const sent = sendStateUpdate(repoHash, branchName, 'ready');
 
@@ -71,6 +179,15 @@ export function sendReadyStateWithGitStatus(repoHash: string, branchName: string
 		return false;
 	}
 
+	await refreshGitStatus(repoHash, branchName);
+	return true;
+}
+
+/**
+ * Sends the git status of a branch to its tab. If the branch's base branch moved (e.g. it was
+ * merged), all tabs using that base branch and the tab of the base branch itself are updated too.
+ */
+export async function refreshGitStatus(repoHash: string, branchName: string): Promise<void> {
 	// Check if base branch has changed and get the session manager
 	const registry = getRepositoryRegistry();
 	const sessionId = registry.getSessionIdByRepoHashAndBranch(repoHash, branchName);
@@ -78,7 +195,7 @@ export function sendReadyStateWithGitStatus(repoHash: string, branchName: string
 		const sessionManager = registry.getRepositoryBySessionId(sessionId);
 		if (sessionManager) {
 			// Check if this session's base branch commit has changed
-			const baseBranchChanged = sessionManager.checkAndUpdateBaseBranch(sessionId);
+			const baseBranchChanged = await sessionManager.checkAndUpdateBaseBranch(sessionId);
 
 			if (baseBranchChanged) {
 				// This session's base branch changed - broadcast to all sessions using the same base branch
@@ -93,12 +210,12 @@ export function sendReadyStateWithGitStatus(repoHash: string, branchName: string
 					for (const [sid, session] of allSessions) {
 						if (session.baseBranchName === changedBaseBranch) {
 							try {
-								const gitStatus = sessionManager.getGitStatus(sid);
+								const gitStatus = await sessionManager.getGitStatus(sid);
 
 								// Include commit log in broadcast
 								let commitLog: CommitInfo[] | undefined = undefined;
 								try {
-									commitLog = sessionManager.getCommitLog(sid);
+									commitLog = await sessionManager.getCommitLog(sid);
 								} catch (commitLogError) {
 									console.error(`Failed to get commit log for session ${sid}:`, commitLogError);
 								}
@@ -115,11 +232,11 @@ export function sendReadyStateWithGitStatus(repoHash: string, branchName: string
 						// Check if this session IS on the changed base branch (but has a different base)
 						if (session.branchName === changedBaseBranch && session.baseBranchName !== changedBaseBranch) {
 							try {
-								const gitStatus = sessionManager.getGitStatus(sid);
+								const gitStatus = await sessionManager.getGitStatus(sid);
 
 								let commitLog: CommitInfo[] | undefined = undefined;
 								try {
-									commitLog = sessionManager.getCommitLog(sid);
+									commitLog = await sessionManager.getCommitLog(sid);
 								} catch (commitLogError) {
 									console.error(`Failed to get commit log for session ${sid}:`, commitLogError);
 								}
@@ -135,12 +252,12 @@ export function sendReadyStateWithGitStatus(repoHash: string, branchName: string
 			} else {
 				// Base branch unchanged - just update current tab's git status
 				try {
-					const gitStatus = sessionManager.getGitStatus(sessionId);
+					const gitStatus = await sessionManager.getGitStatus(sessionId);
 
 					// Try to get commit log, but don't fail if it's unavailable
 					let commitLog: CommitInfo[] | undefined = undefined;
 					try {
-						commitLog = sessionManager.getCommitLog(sessionId);
+						commitLog = await sessionManager.getCommitLog(sessionId);
 					} catch (commitLogError) {
 						console.error(`Failed to get commit log for branch ${branchName}:`, commitLogError);
 						// Continue anyway - we can still send the git status without commit log
@@ -153,8 +270,51 @@ export function sendReadyStateWithGitStatus(repoHash: string, branchName: string
 			}
 		}
 	}
+}
 
-	return true;
+export function sendResourceUsage(repoHash: string, branchName: string, sample: ResourceSample): boolean {
+	const key = makeConnectionKey(repoHash, branchName);
+	const ws = branchConnections.get(key);
+	if (ws && ws.readyState === ws.OPEN) {
+		ws.send(JSON.stringify({ type: 'resourceUsage', sample }));
+		return true;
+	}
+	return false;
+}
+
+/**
+ * Records an entry of the activity timeline of a branch and sends it to its connection
+ */
+export function sendActivity(repoHash: string, branchName: string, entry: ActivityEntry): boolean {
+	const key = makeConnectionKey(repoHash, branchName);
+	const uiState = getBranchUiState(key);
+	uiState.activity = [...(uiState.activity || []), entry].slice(-ACTIVITY_HISTORY_LENGTH);
+	const ws = branchConnections.get(key);
+	if (ws && ws.readyState === ws.OPEN) {
+		ws.send(JSON.stringify({ type: 'activity', entry }));
+		return true;
+	}
+	return false;
+}
+
+export function sendTokenUsage(repoHash: string, branchName: string, usage: { total: TokenUsage; today: TokenUsage }): boolean {
+	const key = makeConnectionKey(repoHash, branchName);
+	const ws = branchConnections.get(key);
+	if (ws && ws.readyState === ws.OPEN) {
+		ws.send(JSON.stringify({ type: 'tokenUsage', usage }));
+		return true;
+	}
+	return false;
+}
+
+export function sendHibernated(repoHash: string, branchName: string, idleMinutes: number): boolean {
+	const key = makeConnectionKey(repoHash, branchName);
+	const ws = branchConnections.get(key);
+	if (ws && ws.readyState === ws.OPEN) {
+		ws.send(JSON.stringify({ type: 'hibernated', idleMinutes }));
+		return true;
+	}
+	return false;
 }
 
 export function sendCloseTabRequest(repoHash: string, branchName: string): boolean {
@@ -162,6 +322,7 @@ export function sendCloseTabRequest(repoHash: string, branchName: string): boole
 	const ws = branchConnections.get(key);
 	if (ws && ws.readyState === ws.OPEN) {
 		ws.send(JSON.stringify({ type: 'closeTab' }));
+		dispatchWebhookEvent(repoHash, branchName, 'session.closed', { mode: 'close' });
 		return true;
 	}
 	return false;
@@ -172,6 +333,7 @@ export function sendDiscardAndCloseRequest(repoHash: string, branchName: string)
 	const ws = branchConnections.get(key);
 	if (ws && ws.readyState === ws.OPEN) {
 		ws.send(JSON.stringify({ type: 'discardAndClose' }));
+		dispatchWebhookEvent(repoHash, branchName, 'session.closed', { mode: 'discard' });
 		return true;
 	}
 	return false;
@@ -182,6 +344,7 @@ export function sendKeepBranchAndCloseRequest(repoHash: string, branchName: stri
 	const ws = branchConnections.get(key);
 	if (ws && ws.readyState === ws.OPEN) {
 		ws.send(JSON.stringify({ type: 'keepBranchAndClose' }));
+		dispatchWebhookEvent(repoHash, branchName, 'session.closed', { mode: 'keep-branch' });
 		return true;
 	}
 	return false;
@@ -189,6 +352,7 @@ export function sendKeepBranchAndCloseRequest(repoHash: string, branchName: stri
 
 export function sendWaituserRequest(repoHash: string, branchName: string, text: string, commandline: string): boolean {
 	const key = makeConnectionKey(repoHash, branchName);
+	getBranchUiState(key).waituser = { text, commandline };
 	const ws = branchConnections.get(key);
 	if (ws && ws.readyState === ws.OPEN) {
 		ws.send(JSON.stringify({ type: 'waituser', text, commandline }));
@@ -199,6 +363,7 @@ export function sendWaituserRequest(repoHash: string, branchName: string, text:
 
 export function sendOpenUrlRequest(repoHash: string, branchName: string, url: string, instructions: string, hidden: boolean): boolean {
 	const key = makeConnectionKey(repoHash, branchName);
+	getBranchUiState(key).openurl = { url, instructions, hidden };
 	const ws = branchConnections.get(key);
 	if (ws && ws.readyState === ws.OPEN) {
 		ws.send(JSON.stringify({ type: 'openurl', url, instructions, hidden }));
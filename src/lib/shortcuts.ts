@@ -31,6 +31,13 @@ export const SHORTCUTS = {
 		shiftKey: false,
 		description: 'Next tab (Alt-Down)'
 	} as KeyboardShortcut,
+	NEXT_ATTENTION_TAB: {
+		key: 'a',
+		altKey: true,
+		ctrlKey: false,
+		shiftKey: false,
+		description: 'Next tab that needs attention (Alt-A)'
+	} as KeyboardShortcut,
 	NEW_TAB: {
 		key: 'c',
 		altKey: true,
@@ -123,6 +130,7 @@ export function shouldBlockFromTerminal(event: KeyboardEvent): boolean {
 		matchesShortcut(event, SHORTCUTS.NEXT_TAB) ||
 		matchesShortcut(event, SHORTCUTS.PREV_TAB) ||
 		matchesShortcut(event, SHORTCUTS.NEXT_TAB_SIMPLE) ||
+		matchesShortcut(event, SHORTCUTS.NEXT_ATTENTION_TAB) ||
 		matchesShortcut(event, SHORTCUTS.NEW_TAB) ||
 		matchesShortcut(event, SHORTCUTS.NEW_TAB_BACKGROUND) ||
 		matchesShortcut(event, SHORTCUTS.CLOSE_TAB) ||
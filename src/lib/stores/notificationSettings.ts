@@ -0,0 +1,47 @@
+import { writable } from 'svelte/store';
+import {
+	type DoNotDisturbSchedule,
+	type NotificationSettings,
+	getNotificationSettings,
+	saveNotificationSettings
+} from '$lib/utils/notificationSettings';
+import { normalizePath } from '$lib/utils/repoHistory';
+
+function createNotificationSettingsStore() {
+	const { subscribe, update } = writable<NotificationSettings>(getNotificationSettings());
+
+	function updateAndPersist(updater: (settings: NotificationSettings) => NotificationSettings) {
+		update(settings => {
+			const updated = updater(settings);
+			saveNotificationSettings(updated);
+			return updated;
+		});
+	}
+
+	return {
+		subscribe,
+
+		/**
+		 * Enables or disables desktop notifications for a repository
+		 * @param repoPath - Absolute path to the repository
+		 */
+		setRepositoryEnabled: (repoPath: string, enabled: boolean) => {
+			const normalized = normalizePath(repoPath);
+			updateAndPersist(settings => ({
+				...settings,
+				repositories: enabled
+					? [...settings.repositories.filter(path => path !== normalized), normalized]
+					: settings.repositories.filter(path => path !== normalized)
+			}));
+		},
+
+		/**
+		 * Sets the schedule during which no notifications are shown (applies to all repositories)
+		 */
+		setDoNotDisturb: (doNotDisturb: DoNotDisturbSchedule) => {
+			updateAndPersist(settings => ({ ...settings, doNotDisturb }));
+		}
+	};
+}
+
+export const notificationSettings = createNotificationSettingsStore();
@@ -15,6 +15,41 @@ export interface GitStatus {
 	isBehindBase: boolean;
 }
 
+export type PermissionMode = 'skip' | 'default' | 'plan' | 'allowlist';
+
+export interface ProcessUsage {
+	cpu: number; // Percent of one CPU core
+	memory: number; // Resident memory in bytes
+	processes: number;
+}
+
+export interface ResourceSample {
+	timestamp: number;
+	total: ProcessUsage;
+	agent: ProcessUsage;
+	autoInit: ProcessUsage | null;
+	shells: ProcessUsage | null;
+}
+
+export interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+	cacheCreationTokens: number;
+	cacheReadTokens: number;
+	costUsd: number; // Estimated from API list prices
+}
+
+export interface SessionTokenUsage {
+	total: TokenUsage; // All conversations in the worktree
+	today: TokenUsage;
+}
+
+const MAX_RESOURCE_HISTORY = 120; // Same as the history kept by the server
+
+// queued: the prompt waits for the limit of running sessions
+// attention: Claude is blocked on a permission prompt or question until the user answers
+export type TabState = 'ready' | 'running' | 'queued' | 'attention';
+
 export interface TerminalTab {
 	id: string;
 	sessionId: string | null;
@@ -22,8 +57,12 @@ export interface TerminalTab {
 	branchName: string;
 	repoPath: string; // Repository path this terminal belongs to
 	derivedFromBranch?: string; // The base branch this worktree was derived from (undefined when backend reads from git config)
+	agentProfile?: string; // Agent profile chosen when creating the tab (undefined when backend reads from git config)
+	permissionMode?: PermissionMode; // Permission mode of the agent (chosen when creating the tab, confirmed by backend)
+	record?: boolean; // Whether to record the session (chosen when creating the tab, undefined when backend reads from git config)
 	active: boolean;
-	state: 'ready' | 'running';
+	state: TabState;
+	queuePosition?: number; // Position in the run queue while queued
 	adoptExisting: boolean;
 	gitStatus: GitStatus | null;
 	commitLog: CommitInfo[] | null;
@@ -35,6 +74,10 @@ export interface TerminalTab {
 	iframeInstructions?: string; // Instructions text to show in blue bar
 	showIframe?: boolean; // Whether to show the iframe (false = hidden, only bar visible)
 	iframeHidden?: boolean; // Whether iframe was loaded with hidden flag
+	resourceHistory?: ResourceSample[]; // CPU/memory usage of the session's processes, oldest first
+	tokenUsage?: SessionTokenUsage; // Tokens used by Claude in the worktree (read from its transcripts)
+	lastActivity?: string; // Summary of the latest prompt, tool use or notification (see ActivityEntry)
+	hibernated?: boolean; // Claude was stopped after being idle, it is resumed when the tab is focused
 }
 
 function createTerminalsStore() {
@@ -43,20 +86,17 @@ function createTerminalsStore() {
 	return {
 		subscribe,
 		update,
-		addTab: (id: string, repoPath: string, branchName: string, adoptExisting: boolean = false, activate: boolean = true, derivedFromBranch?: string) => {
-			console.log('[terminals.addTab] Called with:', { id, repoPath, branchName, adoptExisting, activate, derivedFromBranch });
+		addTab: (id: string, repoPath: string, branchName: string, adoptExisting: boolean = false, activate: boolean = true, derivedFromBranch?: string, agentProfile?: string, permissionMode?: PermissionMode, record?: boolean) => {
+			console.log('[terminals.addTab] Called with:', { id, repoPath, branchName, adoptExisting, activate, derivedFromBranch, agentProfile, permissionMode, record });
 			update(tabs => {
 				if (activate) {
 					// Deactivate all tabs when creating an active tab
 					tabs.forEach(tab => tab.active = false);
 				}
-				// Strip remote prefix for display title (e.g., "origin/feature-xyz" -> "feature-xyz")
-				const displayTitle = branchName.includes('/')
-					? branchName.split('/').slice(1).join('/')
-					: branchName;
 				// Add new tab (start as 'running' until backend detects prompt)
+				// A remote branch (e.g. "origin/feature-xyz") gets the name of its local branch once the session is created
 				console.log('[terminals.addTab] Creating new tab with derivedFromBranch:', derivedFromBranch);
-				return [...tabs, { id, sessionId: null, title: displayTitle, branchName, repoPath, derivedFromBranch, active: activate, state: 'running', adoptExisting, gitStatus: null, commitLog: null, focusStack: null }];
+				return [...tabs, { id, sessionId: null, title: branchName, branchName, repoPath, derivedFromBranch, agentProfile, permissionMode, record, active: activate, state: 'running', adoptExisting, gitStatus: null, commitLog: null, focusStack: null }];
 			});
 		},
 		removeTab: (id: string, preserveWorktree: boolean = true) => {
@@ -110,6 +150,17 @@ function createTerminalsStore() {
 				return tabs;
 			});
 		},
+		// The backend checks out a remote branch (e.g. "origin/feature/xyz") as local branch ("feature/xyz")
+		updateBranchName: (id: string, branchName: string) => {
+			update(tabs => {
+				const tab = tabs.find(tab => tab.id === id);
+				if (tab) {
+					tab.branchName = branchName;
+					tab.title = branchName;
+				}
+				return tabs;
+			});
+		},
 	updateDerivedFromBranch: (id: string, derivedFromBranch: string) => {
 		console.log('[terminals.updateDerivedFromBranch] Updating tab', id, 'with derivedFromBranch:', derivedFromBranch);
 		update(tabs => {
@@ -123,6 +174,60 @@ function createTerminalsStore() {
 			return tabs;
 		});
 	},
+		updatePermissionMode: (id: string, permissionMode: PermissionMode) => {
+			update(tabs => {
+				const tab = tabs.find(tab => tab.id === id);
+				if (tab) {
+					tab.permissionMode = permissionMode;
+				}
+				return tabs;
+			});
+		},
+		updateHibernated: (id: string, hibernated: boolean) => {
+			update(tabs => {
+				const tab = tabs.find(tab => tab.id === id);
+				if (tab) {
+					tab.hibernated = hibernated;
+				}
+				return tabs;
+			});
+		},
+		addResourceSample: (id: string, sample: ResourceSample) => {
+			update(tabs => {
+				const tab = tabs.find(tab => tab.id === id);
+				if (tab) {
+					tab.resourceHistory = [...(tab.resourceHistory || []), sample].slice(-MAX_RESOURCE_HISTORY);
+				}
+				return tabs;
+			});
+		},
+		setResourceHistory: (id: string, samples: ResourceSample[]) => {
+			update(tabs => {
+				const tab = tabs.find(tab => tab.id === id);
+				if (tab) {
+					tab.resourceHistory = samples.slice(-MAX_RESOURCE_HISTORY);
+				}
+				return tabs;
+			});
+		},
+		setLastActivity: (id: string, lastActivity: string | undefined) => {
+			update(tabs => {
+				const tab = tabs.find(tab => tab.id === id);
+				if (tab) {
+					tab.lastActivity = lastActivity;
+				}
+				return tabs;
+			});
+		},
+		setTokenUsage: (id: string, tokenUsage: SessionTokenUsage) => {
+			update(tabs => {
+				const tab = tabs.find(tab => tab.id === id);
+				if (tab) {
+					tab.tokenUsage = tokenUsage;
+				}
+				return tabs;
+			});
+		},
 		updateTitle: (id: string, title: string) => {
 			update(tabs => {
 				const tab = tabs.find(tab => tab.id === id);
@@ -132,11 +237,12 @@ function createTerminalsStore() {
 				return tabs;
 			});
 		},
-		updateState: (sessionId: string, state: 'ready' | 'running') => {
+		updateState: (sessionId: string, state: TabState, queuePosition?: number) => {
 			update(tabs => {
 				const tab = tabs.find(tab => tab.sessionId === sessionId);
 				if (tab) {
 					tab.state = state;
+					tab.queuePosition = queuePosition;
 				}
 				return tabs;
 			});
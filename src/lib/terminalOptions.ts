@@ -0,0 +1,28 @@
+// Shared xterm.js configuration for the agent terminal, shell sub-tabs and the recording player
+
+export const TERMINAL_OPTIONS = {
+	cursorBlink: true,
+	fontSize: 14,
+	fontFamily: 'Consolas, "Courier New", monospace',
+	theme: {
+		background: '#1e1e1e',
+		foreground: '#cccccc',
+		cursor: '#ffffff',
+		black: '#000000',
+		red: '#cd3131',
+		green: '#0dbc79',
+		yellow: '#e5e510',
+		blue: '#2472c8',
+		magenta: '#bc3fbc',
+		cyan: '#11a8cd',
+		white: '#e5e5e5',
+		brightBlack: '#666666',
+		brightRed: '#f14c4c',
+		brightGreen: '#23d18b',
+		brightYellow: '#f5f543',
+		brightBlue: '#3b8eea',
+		brightMagenta: '#d670d6',
+		brightCyan: '#29b8db',
+		brightWhite: '#ffffff'
+	}
+};
@@ -0,0 +1,23 @@
+/**
+ * Branch names may contain slashes (feature/login, user/bob/fix), so a slash alone doesn't
+ * make a remote branch: a name is a remote ref only if it starts with the name of a remote.
+ * Used by the server (SessionManager) and the client (BranchNameDialog) alike.
+ */
+
+export interface RemoteBranch {
+	remote: string; // e.g. "origin"
+	branch: string; // Name of the branch on the remote (and of its local tracking branch), e.g. "feature/login"
+}
+
+/**
+ * Splits a remote ref like "origin/feature/login" into remote and branch name
+ * @param remotes - Names of the repository's remotes
+ * @returns null if the name doesn't start with a remote (i.e. it is a local branch name)
+ */
+export function splitRemoteBranch(name: string, remotes: string[]): RemoteBranch | null {
+	// Prefer the longest match - remote names may contain slashes as well
+	const remote = remotes
+		.filter(remote => name.startsWith(`${remote}/`) && name.length > remote.length + 1)
+		.sort((a, b) => b.length - a.length)[0];
+	return remote ? { remote, branch: name.substring(remote.length + 1) } : null;
+}
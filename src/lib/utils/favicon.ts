@@ -2,7 +2,8 @@
  * Favicon utility - generates dynamic SVG favicon based on terminal states
  */
 
-export type FaviconState = 'all-running' | 'all-ready' | 'mixed';
+// attention: at least one tab needs attention (takes precedence over the other states)
+export type FaviconState = 'all-running' | 'all-ready' | 'mixed' | 'attention';
 
 /**
  * Generate SVG favicon based on state
@@ -16,6 +17,14 @@ export function generateFaviconSVG(state: FaviconState): string {
 				<text x="50" y="68" text-anchor="middle" font-family="Arial, sans-serif" font-size="48" font-weight="bold" fill="white">ch</text>
 			</svg>
 		`.trim();
+	} else if (state === 'attention') {
+		// Orange circle with white border and "ch" text
+		return `
+			<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
+				<circle cx="50" cy="50" r="48" fill="#ea8a00" stroke="white" stroke-width="2"/>
+				<text x="50" y="68" text-anchor="middle" font-family="Arial, sans-serif" font-size="48" font-weight="bold" fill="white">ch</text>
+			</svg>
+		`.trim();
 	} else if (state === 'all-ready') {
 		// Green circle with white border and "ch" text
 		return `
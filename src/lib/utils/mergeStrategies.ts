@@ -0,0 +1,33 @@
+/**
+ * How a branch is merged into its base branch (by the merge button and by /ch-merge):
+ * - fast-forward: rebase onto the base branch, then fast-forward the base branch (linear history)
+ * - squash: rebase onto the base branch and combine all commits into one commit
+ * - merge-commit: merge into the base branch with an explicit merge commit (--no-ff)
+ * Used by the server (SessionManager) and the client (MergeDialog) alike.
+ */
+export type MergeStrategy = 'fast-forward' | 'squash' | 'merge-commit';
+
+export const MERGE_STRATEGIES: MergeStrategy[] = ['fast-forward', 'squash', 'merge-commit'];
+
+/**
+ * Strategy of repositories without git config claude-hydra.mergestrategy
+ * (matches the behavior before merge strategies were configurable).
+ */
+export const DEFAULT_MERGE_STRATEGY: MergeStrategy = 'fast-forward';
+
+export function isMergeStrategy(value: unknown): value is MergeStrategy {
+	return typeof value === 'string' && (MERGE_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Builds the message of a squash commit from the messages of the squashed commits
+ * @param commits - Commits of the branch, newest first (as in the commit log)
+ * @returns The full messages, oldest first, separated by blank lines
+ */
+export function buildSquashMessage(commits: { fullMessage: string }[]): string {
+	return commits
+		.map(commit => commit.fullMessage.trim())
+		.filter(message => message !== '')
+		.reverse()
+		.join('\n\n');
+}
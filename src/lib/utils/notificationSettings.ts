@@ -0,0 +1,80 @@
+/**
+ * Utilities for the desktop notification settings in localStorage
+ */
+
+import { normalizePath } from './repoHistory';
+
+const STORAGE_KEY = 'claude-hydra:notification-settings';
+
+export interface DoNotDisturbSchedule {
+	enabled: boolean;
+	start: string; // Local time "HH:MM"
+	end: string; // Local time "HH:MM" (before start = ends on the next day)
+}
+
+export interface NotificationSettings {
+	repositories: string[]; // Normalized paths of the repositories with notifications enabled
+	doNotDisturb: DoNotDisturbSchedule;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+	repositories: [],
+	doNotDisturb: { enabled: false, start: '22:00', end: '07:00' }
+};
+
+/**
+ * Retrieves the notification settings from localStorage
+ */
+export function getNotificationSettings(): NotificationSettings {
+	if (typeof window === 'undefined') return DEFAULT_NOTIFICATION_SETTINGS;
+
+	try {
+		const stored = localStorage.getItem(STORAGE_KEY);
+		if (!stored) return DEFAULT_NOTIFICATION_SETTINGS;
+
+		const settings = JSON.parse(stored);
+		return {
+			repositories: Array.isArray(settings.repositories) ? settings.repositories : [],
+			doNotDisturb: { ...DEFAULT_NOTIFICATION_SETTINGS.doNotDisturb, ...settings.doNotDisturb }
+		};
+	} catch (error) {
+		console.error('Failed to load notification settings:', error);
+		return DEFAULT_NOTIFICATION_SETTINGS;
+	}
+}
+
+/**
+ * Saves the notification settings to localStorage
+ */
+export function saveNotificationSettings(settings: NotificationSettings): void {
+	if (typeof window === 'undefined') return;
+
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+	} catch (error) {
+		console.error('Failed to save notification settings:', error);
+	}
+}
+
+export function isRepositoryEnabled(settings: NotificationSettings, repoPath: string): boolean {
+	return settings.repositories.includes(normalizePath(repoPath));
+}
+
+function toMinutes(time: string): number {
+	const [hours, minutes] = time.split(':').map(Number);
+	return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Checks whether a point in time falls into the do-not-disturb schedule
+ */
+export function isDoNotDisturbActive(schedule: DoNotDisturbSchedule, date: Date = new Date()): boolean {
+	if (!schedule.enabled) {
+		return false;
+	}
+	const now = date.getHours() * 60 + date.getMinutes();
+	const start = toMinutes(schedule.start);
+	const end = toMinutes(schedule.end);
+	// A schedule like 22:00-07:00 spans midnight
+	return start <= end ? now >= start && now < end : now >= start || now < end;
+}
@@ -0,0 +1,24 @@
+import type { ProcessUsage } from '$lib/stores/terminals';
+
+// CPU usage (in percent of one core) above which a tab is highlighted
+export const HIGH_CPU_USAGE = 80;
+// Memory usage above which a tab is highlighted
+export const HIGH_MEMORY_USAGE = 2 * 1024 * 1024 * 1024;
+
+export function formatCpu(cpu: number): string {
+	return `${Math.round(cpu)}%`;
+}
+
+export function formatMemory(bytes: number): string {
+	if (bytes >= 1024 * 1024 * 1024) {
+		return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+	}
+	return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+/**
+ * Whether a process tree uses enough resources to slow down the machine
+ */
+export function isHighUsage(usage: ProcessUsage): boolean {
+	return usage.cpu >= HIGH_CPU_USAGE || usage.memory >= HIGH_MEMORY_USAGE;
+}
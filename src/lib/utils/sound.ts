@@ -1,9 +1,9 @@
 /**
- * Sound notification utility - plays MP3 sounds for state transitions
+ * Sound notification utility - plays sounds for state transitions
  */
 
 /**
- * Play an MP3 audio file
+ * Play an audio file
  */
 function playAudio(url: string): Promise<void> {
 	return new Promise((resolve) => {
@@ -41,3 +41,10 @@ export async function playSingleBeep(): Promise<void> {
 export async function playDoubleBeep(): Promise<void> {
 	await playAudio('/finished-2.mp3');
 }
+
+/**
+ * Play sound when a tab starts needing attention (permission prompt or question)
+ */
+export async function playAttentionSound(): Promise<void> {
+	await playAudio('/attention.wav');
+}
@@ -0,0 +1,35 @@
+import type { TokenUsage } from '$lib/stores/terminals';
+
+export function formatCost(usd: number): string {
+	return usd < 10 ? `$${usd.toFixed(2)}` : `$${Math.round(usd)}`;
+}
+
+export function formatTokens(tokens: number): string {
+	if (tokens >= 1000000) {
+		return `${(tokens / 1000000).toFixed(1)}M`;
+	}
+	if (tokens >= 1000) {
+		return `${Math.round(tokens / 1000)}k`;
+	}
+	return String(tokens);
+}
+
+/**
+ * Describes token usage for tooltips, e.g. "$1.23 (12k input, 3k output, 1.2M cache read, 40k cache write)"
+ */
+export function describeUsage(usage: TokenUsage): string {
+	return `${formatCost(usage.costUsd)} (${formatTokens(usage.inputTokens)} input, ${formatTokens(usage.outputTokens)} output, `
+		+ `${formatTokens(usage.cacheReadTokens)} cache read, ${formatTokens(usage.cacheCreationTokens)} cache write)`;
+}
+
+export function sumUsage(usages: TokenUsage[]): TokenUsage {
+	const total: TokenUsage = { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, costUsd: 0 };
+	for (const usage of usages) {
+		total.inputTokens += usage.inputTokens;
+		total.outputTokens += usage.outputTokens;
+		total.cacheCreationTokens += usage.cacheCreationTokens;
+		total.cacheReadTokens += usage.cacheReadTokens;
+		total.costUsd += usage.costUsd;
+	}
+	return total;
+}
@@ -0,0 +1,68 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getBranchState } from '$lib/server/websocket-manager';
+import { getRepositoryRegistry } from '$lib/server/session-manager-instance';
+import { getPtyManager } from '$lib/server/pty-manager-instance';
+import { getFileServerSecret } from '$lib/server/secret-instance';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Checks the "Authorization: Bearer <token>" header against the server secret
+ * (available to Claude sessions as CLAUDE_HYDRA_TOKEN).
+ */
+function isAuthorized(request: Request): boolean {
+	const token = /^Bearer (.+)$/.exec(request.headers.get('authorization') || '')?.[1] || '';
+	const expected = Buffer.from(getFileServerSecret());
+	const actual = Buffer.from(token);
+	return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Submits a prompt to the agent of a tab, as if it was typed into the terminal.
+ *
+ * Body: { prompt: string, force?: boolean }
+ * Requires the server secret as bearer token, since the prompt is typed into an agent that may run
+ * without permission checks - otherwise any local process or web page could run commands through it.
+ * While Claude is running (or the tab's prompt is queued) the request is refused with 409,
+ * unless force is set - the prompt is then typed in anyway and Claude picks it up when it's ready.
+ */
+export const POST: RequestHandler = async ({ params, request }) => {
+	const { repohash, branchname } = params;
+
+	if (!request.headers.has('authorization')) {
+		return json({ error: 'Missing "Authorization: Bearer <token>" header (the token is in $CLAUDE_HYDRA_TOKEN)' }, { status: 401 });
+	}
+	if (!isAuthorized(request)) {
+		return json({ error: 'Invalid token' }, { status: 403 });
+	}
+
+	let body: any;
+	try {
+		body = await request.json();
+	} catch {
+		return json({ error: 'Invalid JSON body' }, { status: 400 });
+	}
+	const { prompt, force } = body;
+
+	if (typeof prompt !== 'string' || !prompt.trim()) {
+		return json({ error: 'prompt must be a non-empty string' }, { status: 400 });
+	}
+
+	const registry = getRepositoryRegistry();
+	const sessionId = registry.getSessionIdByRepoHashAndBranch(repohash, branchname);
+	if (!sessionId) {
+		return json({ error: 'No active session for this repository and branch' }, { status: 404 });
+	}
+
+	const state = getBranchState(repohash, branchname);
+	if (state !== 'ready' && !force) {
+		return json({ error: `Session is ${state} - retry when it is ready or set force`, state }, { status: 409 });
+	}
+
+	if (!getPtyManager().submitPrompt(sessionId, prompt)) {
+		return json({ error: 'Session is hibernated - focus its tab to resume it', state }, { status: 409 });
+	}
+
+	console.log(`[prompt] Submitted prompt to ${branchname} (${prompt.length} characters${force ? ', forced' : ''})`);
+	return json({ success: true });
+};
@@ -1,8 +1,11 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { sendStateUpdate, sendReadyStateWithGitStatus, sendCloseTabRequest, sendDiscardAndCloseRequest, sendKeepBranchAndCloseRequest, sendWaituserRequest, sendOpenUrlRequest } from '$lib/server/websocket-manager';
+import { sendStateUpdate, sendActivity, sendReadyStateWithGitStatus, sendCloseTabRequest, sendDiscardAndCloseRequest, sendKeepBranchAndCloseRequest, sendWaituserRequest, sendOpenUrlRequest } from '$lib/server/websocket-manager';
 import { getRepositoryRegistry } from '$lib/server/session-manager-instance';
+import { acquireRunSlot, markRunning, releaseRunSlot } from '$lib/server/run-queue';
 import { getFileServerSecret } from '$lib/server/secret-instance';
+import { describeHookPayload } from '$lib/server/tool-activity';
+import { dispatchWebhookEvent } from '$lib/server/webhooks';
 import { existsSync } from 'fs';
 import { resolve, relative, isAbsolute, sep } from 'path';
 
@@ -81,10 +84,10 @@ function convertFilePathToUrl(
 export const POST: RequestHandler = async ({ params, request }) => {
 	const { repohash, branchname } = params;
 	const body = await request.json();
-	const { state, text, commandline, mode, url, instructions, hidden } = body;
+	const { state, text, commandline, mode, url, instructions, hidden, queue, hook } = body;
 
 	// Validate state
-	if (state !== 'ready' && state !== 'running' && state !== 'close' && state !== 'waituser' && state !== 'openurl') {
+	if (state !== 'ready' && state !== 'running' && state !== 'attention' && state !== 'close' && state !== 'waituser' && state !== 'openurl') {
 		return json({ error: 'Invalid state' }, { status: 400 });
 	}
 
@@ -98,11 +101,48 @@ export const POST: RequestHandler = async ({ params, request }) => {
 		return json({ error: 'openurl state requires url and instructions parameters' }, { status: 400 });
 	}
 
+	// Hook invocations forward their event payload - add it to the tab's activity timeline
+	if (hook && typeof hook === 'object') {
+		const registry = getRepositoryRegistry();
+		const sessionId = registry.getSessionIdByRepoHashAndBranch(repohash, branchname);
+		const sessionInfo = sessionId ? registry.getRepositoryBySessionId(sessionId)?.getAllSessions().get(sessionId) : undefined;
+		const entry = sessionInfo ? describeHookPayload(hook, sessionInfo.worktreePath) : null;
+		if (entry) {
+			sendActivity(repohash, branchname, entry);
+		}
+	}
+
+	// A new prompt (UserPromptSubmit hook) waits until the limit of running sessions allows it to start.
+	// The hook blocks on this response, so Claude doesn't process the prompt while it's queued.
+	if (state === 'running' && queue) {
+		const registry = getRepositoryRegistry();
+		const sessionId = registry.getSessionIdByRepoHashAndBranch(repohash, branchname);
+		const sessionManager = sessionId ? registry.getRepositoryBySessionId(sessionId) : undefined;
+		if (!sessionManager) {
+			return json({ error: 'No active session for this repository and branch' }, { status: 404 });
+		}
+
+		const started = await acquireRunSlot(repohash, branchname, await sessionManager.getMaxRunningSessions(), request.signal);
+		return json({ success: true, started });
+	}
+
+	// Keep track of running sessions for the run queue (closed sessions are released when the agent exits).
+	// A session that needs attention (Notification hook) waits for the user, so it frees its slot as well;
+	// its next tool use takes a slot again if one is free.
+	if (state === 'running') {
+		const registry = getRepositoryRegistry();
+		const sessionId = registry.getSessionIdByRepoHashAndBranch(repohash, branchname);
+		const sessionManager = sessionId ? registry.getRepositoryBySessionId(sessionId) : undefined;
+		markRunning(repohash, branchname, sessionManager ? await sessionManager.getMaxRunningSessions() : 0);
+	} else if (state === 'ready' || state === 'attention') {
+		releaseRunSlot(repohash, branchname);
+	}
+
 	// Send state update to the WebSocket connection for this repository+branch combination
 	let sent: boolean;
 	if (state === 'ready') {
 		// Use shared function that updates both state and git status
-		sent = sendReadyStateWithGitStatus(repohash, branchname);
+		sent = await sendReadyStateWithGitStatus(repohash, branchname);
 	} else if (state === 'close') {
 		// Handle close with optional mode parameter
 		if (mode === 'discard') {
@@ -126,23 +166,26 @@ export const POST: RequestHandler = async ({ params, request }) => {
 			}
 
 			try {
-				const gitStatus = sessionManager.getGitStatus(sessionId);
+				const gitStatus = await sessionManager.getGitStatus(sessionId, request.signal);
 
 				// Only send close request if there are no uncommitted changes and no unmerged commits
 				if (!gitStatus.hasUncommittedChanges && !gitStatus.hasUnmergedCommits) {
 					// Check if base branch has changed (merge likely occurred)
 					// This will update the stored base branch commit ID
-					const baseBranchChanged = sessionManager.checkAndUpdateBaseBranch(sessionId);
+					const baseBranchChanged = await sessionManager.checkAndUpdateBaseBranch(sessionId);
 
 					if (baseBranchChanged) {
+						const baseBranchName = sessionManager.getAllSessions().get(sessionId)?.baseBranchName;
+						dispatchWebhookEvent(repohash, branchname, 'session.merged', { baseBranch: baseBranchName });
+
 						// Base branch changed - broadcast git status to all remaining tabs
 						// so they show as outdated before we close this tab
 						console.log('Base branch changed after merge - broadcasting git status to all tabs');
 						const { broadcastGitStatusToAll } = await import('$lib/server/websocket-manager');
-						broadcastGitStatusToAll(
+						await broadcastGitStatusToAll(
 							repohash,
 							sessionManager.getAllSessions(),
-							(sid) => sessionManager.getGitStatus(sid)
+							(sid) => sessionManager.getGitStatus(sid, request.signal)
 						);
 					}
 
@@ -191,7 +234,7 @@ export const POST: RequestHandler = async ({ params, request }) => {
 
 		sent = sendOpenUrlRequest(repohash, branchname, finalUrl, instructions, hidden || false);
 	} else {
-		// For 'running' state, just send state update
+		// For 'running' and 'attention' state, just send state update
 		sent = sendStateUpdate(repohash, branchname, state);
 	}
 
@@ -1,14 +1,18 @@
 #!/usr/bin/env node
 
-import { execSync } from 'child_process';
+import { execFileSync } from 'child_process';
 import http from 'http';
 import https from 'https';
 
 // Get state from command line argument
-const state = process.argv[2];
-if (!state || !['ready', 'running', 'close', 'waituser', 'openurl'].includes(state)) {
+// 'prompt' reports running like 'running', but waits while the server's run queue is full
+// 'attention' (Notification hook) reports that Claude waits for a permission or an answer
+const arg = process.argv[2];
+if (!arg || !['ready', 'running', 'prompt', 'attention', 'close', 'waituser', 'openurl'].includes(arg)) {
   process.exit(1);
 }
+const queue = arg === 'prompt';
+let state = queue ? 'running' : arg;
 
 // For close state, get optional mode parameter
 let mode;
@@ -46,11 +50,72 @@ if (state === 'openurl') {
   // Note: File path to URL conversion is now handled server-side in the set-state endpoint
 }
 
+// Invoked as Claude hook (ready/running/prompt/attention): the event payload (tool name and input,
+// prompt, ...) arrives as JSON on stdin and is forwarded for the tab's activity timeline
+/** @returns {Promise<any>} */
+function readHookPayload() {
+  if (process.stdin.isTTY) {
+    return Promise.resolve(undefined);
+  }
+  return new Promise((resolve) => {
+    let data = '';
+    const done = () => {
+      clearTimeout(timer);
+      process.stdin.pause();
+      try {
+        resolve(JSON.parse(data));
+      } catch {
+        resolve(undefined);
+      }
+    };
+    // Don't wait for input that never comes (e.g. when called by hand)
+    const timer = setTimeout(done, 1000);
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('data', (chunk) => { data += chunk; });
+    process.stdin.on('end', done);
+    process.stdin.on('error', done);
+  });
+}
+
+// Keep the forwarded payload small (e.g. Write carries the whole file content)
+/**
+ * @param {any} value
+ * @returns {any}
+ */
+function truncateStrings(value) {
+  if (typeof value === 'string') {
+    return value.length > 1000 ? value.substring(0, 1000) : value;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, truncateStrings(entry)]));
+  }
+  return value;
+}
+
+let hook;
+if (['ready', 'running', 'attention'].includes(state)) {
+  const payload = await readHookPayload();
+  if (payload && typeof payload === 'object') {
+    hook = truncateStrings({
+      hook_event_name: payload.hook_event_name,
+      tool_name: payload.tool_name,
+      tool_input: payload.tool_input,
+      prompt: payload.prompt,
+      message: payload.message
+    });
+
+    // Claude also notifies when it has been idle for a while after finishing - that's not a blocking request
+    if (state === 'attention' && (payload.notification_type === 'idle_prompt' || /waiting for your input/i.test(payload.message || ''))) {
+      state = 'ready';
+    }
+  }
+}
+
 // Get git branch name
 let branchName;
 try {
   const projectDir = process.env.CLAUDE_PROJECT_DIR || '.';
-  branchName = execSync(`git -C "${projectDir}" rev-parse --abbrev-ref HEAD`, { encoding: 'utf-8' }).trim();
+  branchName = execFileSync('git', ['-C', projectDir, 'rev-parse', '--abbrev-ref', 'HEAD'], { encoding: 'utf-8' }).trim();
 } catch (error) {
   process.exit(1);
 }
@@ -86,17 +151,28 @@ const options = {
 const req = client.request(apiUrl, options, (res) => {
   // Consume response data to allow socket to close
   res.on('data', () => {});
-  res.on('end', () => {});
+  res.on('end', () => {
+    if (queue) {
+      process.exit(0);
+    }
+  });
 });
 
-req.on('error', () => {});
+if (queue) {
+  // Block Claude until the server starts the queued prompt (the response arrives then).
+  // If the server isn't reachable, don't hold up the prompt.
+  req.on('error', () => process.exit(0));
+} else {
+  req.on('error', () => {});
 
-// Set short timeout and unreference socket to allow immediate exit
-req.setTimeout(100);
-req.socket?.unref();
+  // Set short timeout and unreference socket to allow immediate exit
+  req.setTimeout(100);
+  req.socket?.unref();
+}
 
 // Build request body based on state
-const requestBody = { state };
+// queue: the server answers once the prompt may start (omitted from the JSON when false)
+const requestBody = { state, queue: queue || undefined, hook };
 if (state === 'close' && mode) {
   requestBody.mode = mode;
 }